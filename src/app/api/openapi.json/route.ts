@@ -0,0 +1,190 @@
+import { defaultInputState, inputOptions, listRowDefaults, listRowOptions, rulesPacks } from '@/lib/payroll';
+
+type Schema = Record<string, unknown>;
+
+// Text fields accept numbers too, matching parseInputState
+const fieldSchema = (fallback: unknown, options: string[] | undefined): Schema => {
+  if (typeof fallback === 'boolean') {
+    return { type: 'boolean', default: fallback };
+  }
+  if (options) {
+    return { type: 'string', enum: options, default: fallback };
+  }
+  return { type: ['string', 'number'], default: fallback };
+};
+
+const inputStateSchema = (): Schema => {
+  const properties: Record<string, Schema> = {};
+  Object.entries(defaultInputState).forEach(([field, fallback]) => {
+    if (field in listRowDefaults) {
+      const rowFields = listRowDefaults[field as keyof typeof listRowDefaults] as Record<string, unknown>;
+      const rowOptions = listRowOptions[field as keyof typeof listRowOptions];
+      const rowProperties: Record<string, Schema> = { id: { type: 'string' } };
+      Object.entries(rowFields).forEach(([key, rowFallback]) => {
+        rowProperties[key] = fieldSchema(rowFallback, rowOptions[key]);
+      });
+      properties[field] = { type: 'array', items: { type: 'object', properties: rowProperties } };
+    } else {
+      properties[field] = fieldSchema(fallback, inputOptions[field as keyof typeof inputOptions]);
+    }
+  });
+  properties.taxYear = {
+    ...properties.taxYear,
+    description: `Financial year of the rules pack. Leave empty to choose it from payDate. One of ${rulesPacks.map(pack => pack.year).join(', ')}.`
+  };
+  return { type: 'object', properties };
+};
+
+const money = { type: 'number' };
+const moneyFields = (fields: string[]): Schema => ({
+  type: 'object',
+  properties: Object.fromEntries(fields.map(field => [field, money]))
+});
+
+// The main CalculationResults fields. Responses carry the full object, including per-run detail.
+const calculationResultsSchema: Schema = {
+  type: 'object',
+  properties: {
+    rules: { type: 'object', description: 'The tax rules pack used for the calculation' },
+    grossPay: money,
+    totalPreTaxDeductions: money,
+    taxableIncome: money,
+    withholding: { ...money, description: 'PAYG withheld this period on regular earnings, excluding oneOffWithholding and studyLoanWithholding' },
+    oneOffWithholding: money,
+    studyLoanWithholding: money,
+    netIncome: money,
+    totalPostTaxDeductions: money,
+    takeHomePay: money,
+    superGuarantee: money,
+    superSalarySacrifice: money,
+    superannuation: money,
+    superContributions: { type: 'array', items: { type: 'object' } },
+    annualLiability: moneyFields(['grossTax', 'totalOffsets', 'tax', 'medicareLevy', 'medicareLevySurcharge', 'studyLoanRepayment', 'total', 'withholding', 'difference']),
+    ytd: moneyFields(['gross', 'ordinaryTimeEarnings', 'preTaxDeductions', 'taxableIncome', 'withholding', 'studyLoanWithholding', 'net', 'postTaxDeductions', 'takeHome', 'super']),
+    periodsPerYear: { type: 'integer' },
+    periodsToDate: { type: 'integer' },
+    payRuns: { type: 'array', items: { type: 'object' } },
+    netToGross: { type: ['object', 'null'] },
+    finalPay: { type: ['object', 'null'] }
+  }
+};
+
+const errorSchema: Schema = {
+  type: 'object',
+  properties: { error: { type: 'string' } },
+  required: ['error']
+};
+
+const inputErrorsSchema: Schema = {
+  type: 'object',
+  description: 'Messages keyed by input field',
+  additionalProperties: { type: 'string' }
+};
+
+const badRequest = {
+  description: 'The body is not JSON or not the expected shape',
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+};
+
+export function GET() {
+  return Response.json({
+    openapi: '3.1.0',
+    info: {
+      title: 'Bradmode payslip calculator',
+      version: '1.0.0',
+      description: 'Australian payslip calculations - PAYG withholding, Medicare, study loans, super and leave.'
+    },
+    paths: {
+      '/api/payslip': {
+        post: {
+          operationId: 'calculatePayslip',
+          summary: 'Calculate a payslip',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/InputState' } } }
+          },
+          responses: {
+            200: {
+              description: 'The calculated payslip',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/CalculationResults' } } }
+            },
+            400: badRequest,
+            422: {
+              description: 'One or more inputs are invalid',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { errors: { $ref: '#/components/schemas/InputErrors' } },
+                    required: ['errors']
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      '/api/payslip/batch': {
+        post: {
+          operationId: 'calculatePayslipBatch',
+          summary: 'Calculate payslips for up to 500 employees',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    employees: { type: 'array', maxItems: 500, items: { $ref: '#/components/schemas/InputState' } }
+                  },
+                  required: ['employees']
+                }
+              }
+            }
+          },
+          responses: {
+            200: {
+              description: 'A result for each employee, in request order',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      results: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            index: { type: 'integer' },
+                            id: { type: 'string', description: 'The employee\'s id field, when given' },
+                            ok: { type: 'boolean' },
+                            results: { $ref: '#/components/schemas/CalculationResults' },
+                            errors: { $ref: '#/components/schemas/InputErrors' }
+                          },
+                          required: ['index', 'ok']
+                        }
+                      },
+                      summary: {
+                        type: 'object',
+                        properties: { succeeded: { type: 'integer' }, failed: { type: 'integer' } }
+                      }
+                    }
+                  }
+                }
+              }
+            },
+            400: badRequest
+          }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        InputState: inputStateSchema(),
+        CalculationResults: calculationResultsSchema,
+        InputErrors: inputErrorsSchema,
+        Error: errorSchema
+      }
+    }
+  });
+}
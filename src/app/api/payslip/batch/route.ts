@@ -0,0 +1,33 @@
+import { calculatePayslipFromJson, isRecord } from '@/lib/payroll';
+
+const maxBatchSize = 500;
+
+// Calculates a payslip for each employee in the batch. Invalid employees are reported in their
+// own entry without failing the rest.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const employees = isRecord(body) ? body.employees : undefined;
+  if (!Array.isArray(employees)) {
+    return Response.json({ error: 'Request body must have an employees array' }, { status: 400 });
+  }
+  if (employees.length > maxBatchSize) {
+    return Response.json({ error: `A batch can have at most ${maxBatchSize} employees` }, { status: 400 });
+  }
+
+  const results = employees.map((employee: unknown, index) => {
+    const id = isRecord(employee) && typeof employee.id === 'string' ? employee.id : undefined;
+    if (!isRecord(employee)) {
+      return { index, id, ok: false, errors: { employee: 'Each employee must be a JSON object of payslip inputs' } };
+    }
+    return { index, id, ...calculatePayslipFromJson(employee) };
+  });
+
+  const succeeded = results.filter(result => result.ok).length;
+  return Response.json({ results, summary: { succeeded, failed: results.length - succeeded } });
+}
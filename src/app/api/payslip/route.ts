@@ -0,0 +1,22 @@
+import { calculatePayslipFromJson, isRecord } from '@/lib/payroll';
+
+// Calculates one payslip from InputState fields. Missing fields take the calculator's defaults.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  if (!isRecord(body)) {
+    return Response.json({ error: 'Request body must be a JSON object of payslip inputs' }, { status: 400 });
+  }
+
+  const outcome = calculatePayslipFromJson(body);
+  if (!outcome.ok) {
+    return Response.json({ errors: outcome.errors }, { status: 422 });
+  }
+
+  return Response.json(outcome.results);
+}
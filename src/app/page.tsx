@@ -1,5 +1,5 @@
 import Link from 'next/link';
-import { Calculator, Wrench } from 'lucide-react';
+import { Calculator, Users, Wrench } from 'lucide-react';
 
 const tools = [
   {
@@ -9,6 +9,13 @@ const tools = [
     icon: Calculator,
     status: 'ready'
   },
+  {
+    name: 'Bulk Pay Run',
+    description: 'Calculate payslips for a whole team from a CSV file and export the pay run totals',
+    href: '/tools/pay-run',
+    icon: Users,
+    status: 'ready'
+  },
   // Add more tools here as you build them
 ];
 
@@ -31,6 +31,18 @@ const toolsData: Tool[] = [
     dateAdded: '2025-09-22',
     usageCount: 0
   },
+  {
+    id: 'pay-run',
+    name: 'Bulk Pay Run',
+    description: 'Calculate payslips for a whole team from a CSV file, with PAYG, super and net totals and a CSV export',
+    href: '/tools/pay-run',
+    icon: ({ className }) => <div className={`${className} bg-blue-100 rounded-lg flex items-center justify-center`}>👥</div>,
+    status: 'ready',
+    category: 'Finance',
+    tags: ['payroll', 'tax', 'australia', 'csv', 'pay run'],
+    dateAdded: '2026-10-19',
+    usageCount: 0
+  },
   // Add more tools here as you build them
   // {
   //   id: 'mortgage-calculator',
@@ -0,0 +1,130 @@
+'use client';
+
+import React from 'react';
+import { formatPayslipAmount, totalWithholding } from '@/lib/payroll';
+import type { CalculationResults, EmployerCost } from '@/lib/payroll';
+
+interface EmployerCostViewProps {
+  cost: EmployerCost;
+  results: CalculationResults;
+}
+
+const formatPercent = (rate: number): string => `${(rate * 100).toFixed(2).replace(/\.?0+$/, '')}%`;
+
+const CostRows: React.FC<{ rows: Array<[string, number, number]>; total?: boolean }> = ({ rows, total = false }) => (
+  <>
+    {rows.map(([label, period, annual]) => (
+      <tr key={label} className={total ? 'border-t border-gray-300 font-semibold' : ''}>
+        <td className="py-1 text-gray-600">{label}</td>
+        <td className="py-1 text-right">{formatPayslipAmount(period)}</td>
+        <td className="py-1 text-right">{formatPayslipAmount(annual)}</td>
+      </tr>
+    ))}
+  </>
+);
+
+const CostTable: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <h3 className="text-lg font-medium text-gray-900 mb-3">{title}</h3>
+    <div className="bg-white p-4 rounded-md">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-medium pb-1" />
+            <th className="text-right font-medium pb-1">This Period</th>
+            <th className="text-right font-medium pb-1">Annual</th>
+          </tr>
+        </thead>
+        <tbody>{children}</tbody>
+      </table>
+    </div>
+  </div>
+);
+
+// Employer on-costs next to what the employee is paid, for the pay period and annualised
+const EmployerCostView: React.FC<EmployerCostViewProps> = ({ cost, results }) => {
+  const { period, annual, payrollTaxRule } = cost;
+  const periods = cost.periodsPerYear;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <CostTable title="Employer Cost">
+          <CostRows rows={[
+            ['Gross Pay', period.grossPay, annual.grossPay],
+            ['Super Guarantee', period.superGuarantee, annual.superGuarantee],
+            [`Payroll Tax (${cost.state})`, period.payrollTax, annual.payrollTax],
+            [`Workers Compensation (${formatPercent(cost.workersCompRate)})`, period.workersCompensation, annual.workersCompensation],
+            ['Leave Provisions', period.leaveProvisions, annual.leaveProvisions]
+          ]} />
+          <CostRows total rows={[['Total On-Costs', period.onCosts, annual.onCosts]]} />
+          <CostRows total rows={[['Total Employer Cost', period.total, annual.total]]} />
+        </CostTable>
+
+        <CostTable title="Employee">
+          <CostRows rows={[
+            ['Gross Pay', results.grossPay, results.grossPay * periods],
+            ['Pre-Tax Deductions', results.totalPreTaxDeductions, results.totalPreTaxDeductions * periods],
+            ['PAYG Withholding', totalWithholding(results), totalWithholding(results) * periods],
+            ['Post-Tax Deductions', results.totalPostTaxDeductions, results.totalPostTaxDeductions * periods]
+          ]} />
+          <CostRows total rows={[['Take-Home Pay', results.takeHomePay, results.takeHomePay * periods]]} />
+        </CostTable>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white p-4 rounded-md space-y-2 text-sm">
+          <h4 className="font-medium text-gray-900">Leave Provisions This Period</h4>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Leave Loading:</span>
+            <span className="font-medium">{formatPayslipAmount(cost.leaveLoadingProvision)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Long Service Leave:</span>
+            <span className="font-medium">{formatPayslipAmount(cost.longServiceLeaveProvision)}</span>
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-500">Annual leave accrued (paid within salary):</span>
+            <span className="text-gray-500">{formatPayslipAmount(cost.annualLeaveAccrued)}</span>
+          </div>
+        </div>
+
+        <div className="bg-white p-4 rounded-md space-y-2 text-sm">
+          <h4 className="font-medium text-gray-900">Payroll Tax ({cost.state}, {results.rules.year})</h4>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Threshold:</span>
+            <span className="font-medium">{formatPayslipAmount(payrollTaxRule.threshold)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">General Rate:</span>
+            <span className="font-medium">{formatPercent(payrollTaxRule.rate)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Employer Wages incl. This Employee:</span>
+            <span className="font-medium">{formatPayslipAmount(cost.otherWages + cost.payrollTaxWages)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Effective Rate on This Employee:</span>
+            <span className="font-medium">
+              {formatPercent(cost.payrollTaxWages > 0 ? annual.payrollTax / cost.payrollTaxWages : 0)}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            The increase in annual payroll tax from adding this employee&apos;s wages and super to the employer&apos;s
+            other wages. Source:{' '}
+            <a href={payrollTaxRule.source.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-700">
+              {payrollTaxRule.source.title}
+            </a>
+          </p>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Annual figures are this pay period × {periods} pay periods, a full year at this pay frequency. Payroll tax assumes all wages are paid in {cost.state} and
+        leaves out mental health levies and surcharges on the largest employers.
+      </p>
+    </div>
+  );
+};
+
+export default EmployerCostView;
@@ -0,0 +1,414 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Download, FileText, Upload, Users } from 'lucide-react';
+import {
+  buildAbaFile,
+  calculateBulkPayRun,
+  defaultAbaFileOptions,
+  defaultInputState,
+  formatAbaFile,
+  formatBulkPayRunCsv,
+  rulesPacks,
+  totalWithholding,
+  validateAbaFile
+} from '@/lib/payroll';
+import type { AbaFileOptions, AbaPaymentAmount, InputState } from '@/lib/payroll';
+import { downloadFile } from './downloadFile';
+
+// Example file with the columns most runs need. Any other InputState field can be added as a column.
+const templateCsv = [
+  'name,employeeId,annualSalary,fte,payFrequency,employmentStartDate,hasPrivateHealthInsurance,bsb,accountNumber,accountName',
+  'Alex Citizen,E001,85000,1,fortnightly,2021-03-01,yes,062-000,12345678,Alex Citizen',
+  'Sam Taylor,E002,72000,0.6,fortnightly,2024-11-18,no,033-001,87654321,Sam Taylor'
+].join('\r\n') + '\r\n';
+
+// Pay run inputs that apply to every employee unless their line has its own value
+type RunSettingsField =
+  | 'payFrequency'
+  | 'payDate'
+  | 'periodEndDate'
+  | 'taxYear'
+  | 'employerName'
+  | 'employerBsb'
+  | 'employerAccountNumber'
+  | 'employerAccountName'
+  | 'employerBankCode'
+  | 'employerApcaId';
+
+// Employer debit account fields for the ABA file, with their labels and placeholders
+const employerBankFields: Array<[RunSettingsField, string, string]> = [
+  ['employerName', 'Employer Name', 'Acme Pty Ltd'],
+  ['employerAccountName', 'Account Name', 'Acme Pty Ltd'],
+  ['employerBsb', 'BSB', '063-000'],
+  ['employerAccountNumber', 'Account Number', '87654321'],
+  ['employerBankCode', 'Bank Code', 'CBA'],
+  ['employerApcaId', 'APCA User ID', '301500']
+];
+
+const PayRunCalculator: React.FC = () => {
+  const [settings, setSettings] = useState<InputState>(defaultInputState);
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [abaOptions, setAbaOptions] = useState<AbaFileOptions>(defaultAbaFileOptions);
+  const [abaErrors, setAbaErrors] = useState<string[]>([]);
+
+  const payRun = useMemo(() => (csv.trim() ? calculateBulkPayRun(csv, settings) : null), [csv, settings]);
+  const calculatedCount = payRun ? payRun.rows.filter(row => row.results).length : 0;
+  // Rules packs in the run that withhold using an earlier year's tax tables
+  const borrowedTables = (payRun ? payRun.rows : [])
+    .flatMap(row => (row.results?.rules.withholding.tablesYear ? [row.results.rules] : []))
+    .filter((rules, index, all) => all.findIndex(other => other.year === rules.year) === index);
+
+  const handleSettingChange = (field: RunSettingsField, value: string): void => {
+    setAbaErrors([]);
+    setSettings(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setFileName(file.name);
+    setAbaErrors([]);
+    setCsv(await file.text());
+  };
+
+  const exportPayRun = (): void => {
+    if (payRun) {
+      downloadFile(formatBulkPayRunCsv(payRun), `pay-run-${settings.payDate || 'export'}.csv`, 'text/csv;charset=utf-8');
+    }
+  };
+
+  // Pays every employee whose payslip calculated. Lines with errors are left out, as in the totals.
+  const exportAbaFile = (): void => {
+    if (!payRun) {
+      return;
+    }
+    const payslips = payRun.rows.flatMap(row => (row.input && row.results ? [{ input: row.input, results: row.results }] : []));
+    if (payslips.length === 0) {
+      setAbaErrors(['There are no calculated payslips to pay']);
+      return;
+    }
+    const abaFile = buildAbaFile(payslips, abaOptions);
+    const fileErrors = validateAbaFile(abaFile);
+    setAbaErrors(fileErrors);
+    if (fileErrors.length === 0) {
+      downloadFile(formatAbaFile(abaFile), `pay-run-${settings.payDate || 'export'}.aba`, 'text/plain');
+    }
+  };
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: 'AUD',
+      minimumFractionDigits: 2
+    }).format(amount || 0);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 bg-white">
+      <div className="flex items-center gap-3 mb-8">
+        <Users className="w-8 h-8 text-blue-600" />
+        <h1 className="text-3xl font-bold text-gray-900">Bulk Pay Run</h1>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+        {/* Input Section */}
+        <div className="xl:col-span-1">
+          <div className="bg-gray-50 p-6 rounded-lg">
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              Pay Run Details
+            </h2>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Pay Date
+                  </label>
+                  <input
+                    type="date"
+                    value={settings.payDate}
+                    onChange={(e) => handleSettingChange('payDate', e.target.value)}
+                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Period End Date
+                  </label>
+                  <input
+                    type="date"
+                    value={settings.periodEndDate}
+                    onChange={(e) => handleSettingChange('periodEndDate', e.target.value)}
+                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Pay Frequency
+                </label>
+                <select
+                  value={settings.payFrequency}
+                  onChange={(e) => handleSettingChange('payFrequency', e.target.value)}
+                  className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="weekly">Weekly</option>
+                  <option value="fortnightly">Fortnightly</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="quarterly">Quarterly</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tax Year
+                </label>
+                <select
+                  value={settings.taxYear}
+                  onChange={(e) => handleSettingChange('taxYear', e.target.value)}
+                  className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">From pay date</option>
+                  {rulesPacks.map((pack) => (
+                    <option key={pack.year} value={pack.year}>
+                      {pack.year}{pack.provisional ? ' (provisional)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Applies to every employee unless their line has its own value
+                </p>
+              </div>
+
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <h3 className="text-sm font-semibold text-gray-900">Employees</h3>
+                <label className="flex items-center justify-center gap-2 w-full p-3 border-2 border-dashed border-gray-300 rounded-md cursor-pointer text-sm text-gray-600 hover:border-blue-500 hover:text-blue-600">
+                  <Upload className="w-4 h-4" />
+                  {fileName || 'Upload CSV file'}
+                  <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+                </label>
+                <p className="text-xs text-gray-500">
+                  One employee per line with name and employeeId, plus any calculator field as a column -
+                  annualSalary, fte, payFrequency, employmentStartDate, hasPrivateHealthInsurance (yes/no) and so on
+                </p>
+                <button
+                  type="button"
+                  onClick={() => downloadFile(templateCsv, 'pay-run-template.csv', 'text/csv;charset=utf-8')}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <Download className="w-4 h-4" />
+                  Download template
+                </button>
+              </div>
+
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <h3 className="text-sm font-semibold text-gray-900">Employer Bank Account</h3>
+                <p className="text-xs text-gray-500">
+                  Account the ABA file pays employees from. Employee accounts come from the bsb,
+                  accountNumber and accountName columns.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {employerBankFields.map(([field, label, placeholder]) => (
+                    <div key={field}>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        {label}
+                      </label>
+                      <input
+                        type="text"
+                        value={settings[field]}
+                        onChange={(e) => handleSettingChange(field, e.target.value)}
+                        placeholder={placeholder}
+                        className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Amount Paid
+                    </label>
+                    <select
+                      value={abaOptions.amount}
+                      onChange={(e) => setAbaOptions(prev => ({ ...prev, amount: e.target.value as AbaPaymentAmount }))}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="takeHome">Take-home pay</option>
+                      <option value="net">Net pay</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Description
+                    </label>
+                    <input
+                      type="text"
+                      value={abaOptions.description}
+                      onChange={(e) => setAbaOptions(prev => ({ ...prev, description: e.target.value }))}
+                      maxLength={12}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={abaOptions.balanced}
+                    onChange={(e) => setAbaOptions(prev => ({ ...prev, balanced: e.target.checked }))}
+                    className="rounded border-gray-300"
+                  />
+                  Balance the file with a debit from the employer account (some banks require this)
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Results Section */}
+        <div className="xl:col-span-2">
+          {!payRun ? (
+            <div className="bg-gray-50 p-8 rounded-lg text-center">
+              <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">Upload a CSV of employees to calculate the pay run</p>
+            </div>
+          ) : payRun.errors.length > 0 ? (
+            <div className="bg-red-50 p-6 rounded-lg border border-red-200">
+              {payRun.errors.map(error => (
+                <p key={error} className="flex items-center gap-2 text-sm text-red-700">
+                  <AlertCircle className="w-4 h-4" />
+                  {error}
+                </p>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Totals */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-blue-50 p-4 rounded-lg">
+                  <p className="text-sm text-gray-600">Gross</p>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(payRun.totals.grossPay)}</p>
+                </div>
+                <div className="bg-red-50 p-4 rounded-lg">
+                  <p className="text-sm text-gray-600">PAYG Withheld</p>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(payRun.totals.withholding)}</p>
+                </div>
+                <div className="bg-purple-50 p-4 rounded-lg">
+                  <p className="text-sm text-gray-600">Super</p>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(payRun.totals.superannuation)}</p>
+                </div>
+                <div className="bg-green-50 p-4 rounded-lg">
+                  <p className="text-sm text-gray-600">Net</p>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(payRun.totals.netIncome)}</p>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">
+                  {calculatedCount} of {payRun.rows.length} employees calculated
+                  {calculatedCount < payRun.rows.length && ' - lines with errors are left out of the totals'}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={exportAbaFile}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    ABA File
+                  </button>
+                  <button
+                    type="button"
+                    onClick={exportPayRun}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export CSV
+                  </button>
+                </div>
+              </div>
+
+              {abaErrors.length > 0 && (
+                <div className="p-3 text-xs text-red-700 bg-red-50 rounded-md border border-red-200">
+                  <p className="font-medium">The ABA file can&apos;t be made yet:</p>
+                  {abaErrors.map(error => <p key={error}>• {error}</p>)}
+                </div>
+              )}
+
+              {borrowedTables.map(rules => (
+                <p key={rules.year} className="text-xs text-orange-700 bg-orange-50 p-3 rounded-md border border-orange-200">
+                  {rules.year} withholding uses the {rules.withholding.tablesYear} ATO tax tables until the {rules.year} tables are published
+                </p>
+              ))}
+
+              {payRun.ignoredColumns.length > 0 && (
+                <p className="text-xs text-yellow-700 bg-yellow-50 p-3 rounded-md border border-yellow-200">
+                  Ignored unknown columns: {payRun.ignoredColumns.join(', ')}
+                </p>
+              )}
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-gray-500">
+                      <th className="text-left font-medium p-2">Line</th>
+                      <th className="text-left font-medium p-2">Employee</th>
+                      <th className="text-right font-medium p-2">Gross</th>
+                      <th className="text-right font-medium p-2">PAYG</th>
+                      <th className="text-right font-medium p-2">Super</th>
+                      <th className="text-right font-medium p-2">Net</th>
+                      <th className="text-right font-medium p-2">Take-Home</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payRun.rows.map((row) => (
+                      <tr key={row.line} className={`border-t border-gray-100 align-top ${row.results ? '' : 'bg-red-50'}`}>
+                        <td className="p-2 text-gray-500">{row.line}</td>
+                        <td className="p-2">
+                          <p className="font-medium text-gray-900">{row.name || 'Unnamed'}</p>
+                          {row.employeeId && <p className="text-xs text-gray-500">{row.employeeId}</p>}
+                          {row.errors.map(error => (
+                            <p key={error} className="text-xs text-red-600">{error}</p>
+                          ))}
+                        </td>
+                        {row.results ? (
+                          <>
+                            <td className="p-2 text-right">{formatCurrency(row.results.grossPay)}</td>
+                            <td className="p-2 text-right">{formatCurrency(totalWithholding(row.results))}</td>
+                            <td className="p-2 text-right">{formatCurrency(row.results.superannuation)}</td>
+                            <td className="p-2 text-right">{formatCurrency(row.results.netIncome)}</td>
+                            <td className="p-2 text-right">{formatCurrency(row.results.takeHomePay)}</td>
+                          </>
+                        ) : (
+                          <td colSpan={5} />
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="border-t-2 border-gray-300 font-semibold">
+                      <td className="p-2" colSpan={2}>Total</td>
+                      <td className="p-2 text-right">{formatCurrency(payRun.totals.grossPay)}</td>
+                      <td className="p-2 text-right">{formatCurrency(payRun.totals.withholding)}</td>
+                      <td className="p-2 text-right">{formatCurrency(payRun.totals.superannuation)}</td>
+                      <td className="p-2 text-right">{formatCurrency(payRun.totals.netIncome)}</td>
+                      <td className="p-2 text-right">{formatCurrency(payRun.totals.takeHomePay)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayRunCalculator;
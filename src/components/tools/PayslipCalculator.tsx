@@ -1,302 +1,175 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Calculator, Calendar, DollarSign, FileText, Clock, Users } from 'lucide-react';
-
-interface InputState {
-  payFrequency: string;
-  payDate: string;
-  periodEndDate: string;
-  annualSalary: string;
-  employmentStartDate: string;
-  taxYear: string;
-  fullTimeHours: string;
-  fte: string;
-  hasPrivateHealthInsurance: boolean;
-}
-
-interface TaxBracket {
-  min: number;
-  max: number;
-  rate: number;
-  offset: number;
-}
-
-interface CalculationResults {
-  grossPay: number;
-  taxableIncome: number;
-  tax: number;
-  medicareLevy: number;
-  medicareLevySurcharge: number;
-  totalMedicareCharges: number;
-  netIncome: number;
-  superannuation: number;
-  annualLeaveAccrual: number;
-  hoursWorked: number;
-  hourlyRate: number;
-  ytd: {
-    gross: number;
-    tax: number;
-    medicareLevy: number;
-    medicareLevySurcharge: number;
-    totalMedicareCharges: number;
-    net: number;
-    super: number;
-  };
-  periodsPerYear: number;
-  payPeriodDays: number;
-  periodsToDate: number;
-  effectiveAnnualSalary: number;
-  fte: number;
-}
-
-// Move these outside the component to satisfy linter
-const taxBrackets: Record<string, TaxBracket[]> = {
-  '2024-25': [
-    { min: 0, max: 18200, rate: 0, offset: 0 },
-    { min: 18201, max: 45000, rate: 0.19, offset: 0 },
-    { min: 45001, max: 120000, rate: 0.325, offset: 5092 },
-    { min: 120001, max: 180000, rate: 0.37, offset: 29467 },
-    { min: 180001, max: Infinity, rate: 0.45, offset: 51667 }
-  ],
-  '2025-26': [
-    { min: 0, max: 18200, rate: 0, offset: 0 },
-    { min: 18201, max: 45000, rate: 0.16, offset: 0 },
-    { min: 45001, max: 135000, rate: 0.30, offset: 4288 },
-    { min: 135001, max: 190000, rate: 0.37, offset: 31288 },
-    { min: 190001, max: Infinity, rate: 0.45, offset: 51638 }
-  ]
-};
-
-const medicareLevy: Record<string, number> = {
-  '2024-25': 0.02,
-  '2025-26': 0.02
-};
-
-const superRates: Record<string, number> = {
-  '2024-25': 0.115,
-  '2025-26': 0.12
-};
-
-// Medicare Levy thresholds (below these amounts, reduced or no levy applies)
-const medicareLevyThresholds: Record<string, { lower: number; upper: number }> = {
-  '2024-25': { lower: 27222, upper: 34027 },
-  '2025-26': { lower: 27222, upper: 34027 } // Same as previous year
-};
-
-// Medicare Levy Surcharge thresholds and rates
-const mlsThresholds: Record<string, Array<{ min: number; max: number; rate: number }>> = {
-  '2024-25': [
-    { min: 0, max: 97000, rate: 0 },
-    { min: 97001, max: 113000, rate: 0.01 },
-    { min: 113001, max: 151000, rate: 0.0125 },
-    { min: 151001, max: Infinity, rate: 0.015 }
-  ],
-  '2025-26': [
-    { min: 0, max: 101000, rate: 0 },
-    { min: 101001, max: 118000, rate: 0.01 },
-    { min: 118001, max: 158000, rate: 0.0125 },
-    { min: 158001, max: Infinity, rate: 0.015 }
-  ]
-};
-
-const calculateTax = (taxableIncome: number, year: string): number => {
-  const brackets = taxBrackets[year];
-  let tax = 0;
-  
-  for (const bracket of brackets) {
-    if (taxableIncome >= bracket.min && taxableIncome <= bracket.max) {
-      tax = bracket.offset + (taxableIncome - bracket.min + 1) * bracket.rate;
-      break;
-    }
-  }
-  
-  return tax;
-};
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Calculator, Calendar, DollarSign, FileText, Clock, Users, Plus, Trash2, Printer, Download } from 'lucide-react';
+import EmployerCostView from './EmployerCostView';
+import { downloadFile } from './downloadFile';
+import PayslipDocumentView from './PayslipDocumentView';
+import {
+  buildAbaFile,
+  buildPayslipDocument,
+  buildStpPayload,
+  calculateEmployerCost,
+  calculatorModeLabels,
+  computePayslip,
+  defaultAbaFileOptions,
+  defaultInputState,
+  earningsTypeLabels,
+  formatAbaFile,
+  employmentTypeLabels,
+  isAllowance,
+  leaveTypeLabels,
+  longServiceLeaveRules,
+  medicareExemptionLabels,
+  parseDate,
+  PayslipInputError,
+  postTaxDeductionLabels,
+  preTaxDeductionLabels,
+  renderPayslipPdf,
+  residencyLabels,
+  resolveRulesPack,
+  rulesPacks,
+  targetMeasureLabels,
+  taxDeductiblePostTaxDeductions,
+  terminationReasonLabels,
+  validateAbaFile,
+  validateInputs,
+  validateStpPayload,
+  withholdingScaleLabels
+} from '@/lib/payroll';
+import type {
+  AbaFileOptions,
+  AbaPaymentAmount,
+  AustralianState,
+  CalculationResults,
+  CalculatorMode,
+  InputErrors,
+  InputState,
+  LeaveType,
+  MedicareExemption,
+  OneOffPaymentType,
+  PostTaxDeductionType,
+  TargetMeasure,
+  TerminationReason,
+  TimesheetEarningsType
+} from '@/lib/payroll';
 
-const calculateMedicareLevy = (taxableIncome: number, year: string): number => {
-  const thresholds = medicareLevyThresholds[year];
-  const rate = medicareLevy[year];
-  
-  if (taxableIncome <= thresholds.lower) {
-    return 0; // No Medicare levy for low income earners
-  }
-  
-  if (taxableIncome <= thresholds.upper) {
-    // Reduced Medicare levy for income between lower and upper thresholds
-    const reduction = (thresholds.upper - taxableIncome) / (thresholds.upper - thresholds.lower);
-    return taxableIncome * rate * (1 - reduction);
-  }
-  
-  // Full Medicare levy for income above upper threshold
-  return taxableIncome * rate;
-};
+// Input fields that hold editable lists of rows
+type ListInputField = {
+  [K in keyof InputState]: InputState[K] extends Array<{ id: string }> ? K : never;
+}[keyof InputState];
 
-const calculateMedicareLevySurcharge = (taxableIncome: number, year: string, hasInsurance: boolean): number => {
-  if (hasInsurance) {
-    return 0; // No surcharge if you have appropriate private health insurance
-  }
-  
-  const thresholds = mlsThresholds[year];
-  
-  for (const threshold of thresholds) {
-    if (taxableIncome >= threshold.min && taxableIncome <= threshold.max) {
-      return taxableIncome * threshold.rate;
-    }
-  }
-  
-  return 0;
+// Whether each kind of one-off payment is usually ordinary time earnings
+const oneOffPaymentDefaults: Record<OneOffPaymentType, { ote: boolean }> = {
+  bonus: { ote: true },
+  commission: { ote: true },
+  backPay: { ote: true },
+  priorYearBackPay: { ote: true },
+  leaveCashOut: { ote: false }
 };
 
-const getPayPeriodsPerYear = (frequency: string): number => {
-  const periods: Record<string, number> = {
-    'weekly': 52.18,
-    'fortnightly': 26.09,
-    'monthly': 12,
-    'quarterly': 4
-  };
-  return periods[frequency] || 26.09;
+// Typical award multipliers and OTE treatment - penalty rates for ordinary hours are OTE, overtime isn't
+const earningsTypeDefaults: Record<TimesheetEarningsType, { multiplier: string; ote: boolean }> = {
+  ordinary: { multiplier: '1', ote: true },
+  overtime: { multiplier: '1.5', ote: false },
+  saturday: { multiplier: '1.25', ote: true },
+  sunday: { multiplier: '1.5', ote: true },
+  publicHoliday: { multiplier: '2.25', ote: true },
+  allowanceTaxable: { multiplier: '1', ote: true },
+  allowanceNonTaxable: { multiplier: '1', ote: false }
 };
 
-const getPayPeriodDays = (frequency: string): number => {
-  const days: Record<string, number> = {
-    'weekly': 7,
-    'fortnightly': 14,
-    'monthly': 30.44,
-    'quarterly': 91.33
-  };
-  return days[frequency] || 14;
-};
+const createId = (): string => Math.random().toString(36).slice(2, 10);
 
 const PayslipCalculator: React.FC = () => {
-  const [inputs, setInputs] = useState<InputState>({
-    payFrequency: 'fortnightly',
-    payDate: '',
-    periodEndDate: '',
-    annualSalary: '',
-    employmentStartDate: '',
-    taxYear: '2025-26',
-    fullTimeHours: '38',
-    fte: '1.0',
-    hasPrivateHealthInsurance: false
-  });
+  const [inputs, setInputs] = useState<InputState>(defaultInputState);
 
   const [results, setResults] = useState<CalculationResults | null>(null);
+  const [errors, setErrors] = useState<InputErrors>({});
+  const [stpErrors, setStpErrors] = useState<string[]>([]);
+  const [abaOptions, setAbaOptions] = useState<AbaFileOptions>(defaultAbaFileOptions);
+  const [abaErrors, setAbaErrors] = useState<string[]>([]);
+  const [resultsView, setResultsView] = useState<'employee' | 'employer'>('employee');
 
   const calculateResults = useCallback((): void => {
-    if (!inputs.annualSalary || !inputs.payDate || !inputs.periodEndDate || !inputs.employmentStartDate) {
+    const rules = resolveRulesPack(inputs);
+    const inputErrors = validateInputs(inputs, rules);
+    setErrors(inputErrors);
+    setStpErrors([]);
+    setAbaErrors([]);
+    
+    if (Object.keys(inputErrors).length > 0 || !rules) {
+      setResults(null);
       return;
     }
 
-    const annualSalary = parseFloat(inputs.annualSalary);
-    const fullTimeHours = parseFloat(inputs.fullTimeHours) || 38;
-    const fte = parseFloat(inputs.fte) || 1.0;
-    const periodsPerYear = getPayPeriodsPerYear(inputs.payFrequency);
-    const payPeriodDays = getPayPeriodDays(inputs.payFrequency);
-    
-    // Adjust salary for FTE
-    const effectiveAnnualSalary = annualSalary * fte;
-    
-    // Calculate current period amounts
-    const grossPay = effectiveAnnualSalary / periodsPerYear;
-    const annualTax = calculateTax(effectiveAnnualSalary, inputs.taxYear);
-    const taxPerPeriod = annualTax / periodsPerYear;
-    
-    // Calculate Medicare charges
-    const annualMedicareLevy = calculateMedicareLevy(effectiveAnnualSalary, inputs.taxYear);
-    const annualMedicareLevySurcharge = calculateMedicareLevySurcharge(
-      effectiveAnnualSalary, 
-      inputs.taxYear, 
-      inputs.hasPrivateHealthInsurance
-    );
-    const annualTotalMedicareCharges = annualMedicareLevy + annualMedicareLevySurcharge;
-    
-    const medicareLevyPerPeriod = annualMedicareLevy / periodsPerYear;
-    const medicareLevySurchargePerPeriod = annualMedicareLevySurcharge / periodsPerYear;
-    const totalMedicareChargesPerPeriod = annualTotalMedicareCharges / periodsPerYear;
-    
-    const netPay = grossPay - taxPerPeriod - totalMedicareChargesPerPeriod;
-    
-    // Superannuation
-    const superRate = superRates[inputs.taxYear];
-    const superannuation = grossPay * superRate;
-    
-    // Calculate hours worked this period
-    const hoursPerPeriod = (fullTimeHours * fte * payPeriodDays) / 7;
-    
-    // Annual leave accrual (20 days per year for full-time, pro-rated for part-time)
-    const annualLeaveDaysPerYear = 20 * fte;
-    const workingDaysPerYear = 260.87;
-    const annualLeaveAccrualRate = annualLeaveDaysPerYear / workingDaysPerYear;
-    const workingDaysThisPeriod = (payPeriodDays * 5 / 7);
-    const annualLeaveAccrualDays = workingDaysThisPeriod * annualLeaveAccrualRate;
-    const hoursPerDay = fullTimeHours / 5;
-    const annualLeaveAccrualHours = annualLeaveAccrualDays * hoursPerDay;
-    
-    // Calculate YTD figures
-    const payDate = new Date(inputs.payDate);
-    const employmentStart = new Date(inputs.employmentStartDate);
-    const financialYearStart = new Date(payDate.getFullYear() - (payDate.getMonth() < 6 ? 1 : 0), 6, 1);
-    
-    const ytdStartDate = employmentStart > financialYearStart ? employmentStart : financialYearStart;
-    
-    const daysDiff = Math.floor((payDate.getTime() - ytdStartDate.getTime()) / (1000 * 60 * 60 * 24));
-    const yearDays = 365.25;
-    
-    const ytdProportion = daysDiff / yearDays;
-    const ytdMaxGross = effectiveAnnualSalary * ytdProportion;
-    const ytdMaxTax = annualTax * ytdProportion;
-    const ytdMaxMedicareLevy = annualMedicareLevy * ytdProportion;
-    const ytdMaxMedicareLevySurcharge = annualMedicareLevySurcharge * ytdProportion;
-    const ytdMaxTotalMedicareCharges = annualTotalMedicareCharges * ytdProportion;
-    const ytdMaxNet = ytdMaxGross - ytdMaxTax - ytdMaxTotalMedicareCharges;
-    const ytdMaxSuper = ytdMaxGross * superRate;
-    
-    const periodsToDate = Math.floor(daysDiff / payPeriodDays) + 1;
-    
-    const ytdGross = Math.min(grossPay * periodsToDate, ytdMaxGross);
-    const ytdTax = Math.min(taxPerPeriod * periodsToDate, ytdMaxTax);
-    const ytdMedicareLevy = Math.min(medicareLevyPerPeriod * periodsToDate, ytdMaxMedicareLevy);
-    const ytdMedicareLevySurcharge = Math.min(medicareLevySurchargePerPeriod * periodsToDate, ytdMaxMedicareLevySurcharge);
-    const ytdTotalMedicareCharges = Math.min(totalMedicareChargesPerPeriod * periodsToDate, ytdMaxTotalMedicareCharges);
-    const ytdNet = Math.min(netPay * periodsToDate, ytdMaxNet);
-    const ytdSuper = Math.min(superannuation * periodsToDate, ytdMaxSuper);
-
-    const hourlyRate = effectiveAnnualSalary / (52.18 * fullTimeHours * fte);
-
-    setResults({
-      grossPay,
-      taxableIncome: grossPay,
-      tax: taxPerPeriod,
-      medicareLevy: medicareLevyPerPeriod,
-      medicareLevySurcharge: medicareLevySurchargePerPeriod,
-      totalMedicareCharges: totalMedicareChargesPerPeriod,
-      netIncome: netPay,
-      superannuation,
-      annualLeaveAccrual: annualLeaveAccrualHours,
-      hoursWorked: hoursPerPeriod,
-      hourlyRate,
-      ytd: {
-        gross: ytdGross,
-        tax: ytdTax,
-        medicareLevy: ytdMedicareLevy,
-        medicareLevySurcharge: ytdMedicareLevySurcharge,
-        totalMedicareCharges: ytdTotalMedicareCharges,
-        net: ytdNet,
-        super: ytdSuper
-      },
-      periodsPerYear,
-      payPeriodDays,
-      periodsToDate,
-      effectiveAnnualSalary,
-      fte
-    });
+    try {
+      setResults(computePayslip(inputs, rules));
+    } catch (error) {
+      // Net to gross reports a target no rate can reach against the target pay
+      if (!(error instanceof PayslipInputError)) {
+        throw error;
+      }
+      setErrors(error.errors);
+      setResults(null);
+    }
   }, [inputs]);
 
   useEffect(() => {
     calculateResults();
   }, [calculateResults]);
 
+  const employerCost = useMemo(() => (results ? calculateEmployerCost(inputs, results) : null), [results, inputs]);
+
+  const payslipDocument = useMemo(() => (results ? buildPayslipDocument(results, inputs) : null), [results, inputs]);
+
+  const downloadPayslipPdf = (): void => {
+    if (!payslipDocument) {
+      return;
+    }
+    downloadFile(
+      renderPayslipPdf(payslipDocument),
+      `payslip-${inputs.employeeName.trim().replace(/\W+/g, '-').toLowerCase() || 'employee'}-${inputs.payDate}.pdf`,
+      'application/pdf'
+    );
+  };
+
+  // STP Phase 2 payee data for this payslip, saved as JSON once it passes the schema
+  const exportStpPayload = (): void => {
+    if (!results) {
+      return;
+    }
+    const payload = buildStpPayload([{ input: inputs, results }]);
+    const payloadErrors = validateStpPayload(payload);
+    setStpErrors(payloadErrors);
+    if (payloadErrors.length > 0) {
+      return;
+    }
+    downloadFile(
+      JSON.stringify(payload, null, 2),
+      `stp-${payload.payees[0].payrollId}-${payload.payEvent.paymentDate}.json`,
+      'application/json'
+    );
+  };
+
+  // Direct entry file paying this employee's net or take-home pay from the employer's account
+  const exportAbaFile = (): void => {
+    if (!results) {
+      return;
+    }
+    const abaFile = buildAbaFile([{ input: inputs, results }], abaOptions);
+    const fileErrors = validateAbaFile(abaFile);
+    setAbaErrors(fileErrors);
+    if (fileErrors.length > 0) {
+      return;
+    }
+    downloadFile(
+      formatAbaFile(abaFile),
+      `payment-${inputs.employeeName.trim().replace(/\W+/g, '-').toLowerCase() || 'employee'}-${inputs.payDate}.aba`,
+      'text/plain'
+    );
+  };
+
   const handleInputChange = (field: keyof InputState, value: string | boolean): void => {
     setInputs(prev => ({
       ...prev,
@@ -304,6 +177,27 @@ const PayslipCalculator: React.FC = () => {
     }));
   };
 
+  const addListItem = <K extends ListInputField>(field: K, item: InputState[K][number]): void => {
+    setInputs(prev => ({
+      ...prev,
+      [field]: [...prev[field], item]
+    }));
+  };
+
+  const handleListItemChange = (field: ListInputField, id: string, key: string, value: string | boolean): void => {
+    setInputs(prev => ({
+      ...prev,
+      [field]: prev[field].map(item => (item.id === id ? { ...item, [key]: value } : item))
+    }));
+  };
+
+  const removeListItem = (field: ListInputField, id: string): void => {
+    setInputs(prev => ({
+      ...prev,
+      [field]: (prev[field] as Array<{ id: string }>).filter(item => item.id !== id)
+    }) as InputState);
+  };
+
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat('en-AU', {
       style: 'currency',
@@ -312,6 +206,10 @@ const PayslipCalculator: React.FC = () => {
     }).format(amount || 0);
   };
 
+  const formatDate = (date: Date): string => {
+    return date.toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+  };
+
   const formatHours = (hours: number): string => {
     return hours?.toFixed(2) || '0.00';
   };
@@ -337,6 +235,164 @@ const PayslipCalculator: React.FC = () => {
             </h2>
             
             <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-1 p-1 bg-gray-200 rounded-md">
+                {(Object.keys(calculatorModeLabels) as CalculatorMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => handleInputChange('calculatorMode', mode)}
+                    className={`py-2 text-sm font-medium rounded ${inputs.calculatorMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                  >
+                    {calculatorModeLabels[mode]}
+                  </button>
+                ))}
+              </div>
+
+              {inputs.calculatorMode === 'reverse' && (
+                <div className="space-y-3 p-3 bg-blue-50 rounded-md border border-blue-200">
+                  <h3 className="text-sm font-semibold text-gray-900">Target Pay</h3>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        Amount per Period
+                      </label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={inputs.targetPay}
+                        onChange={(e) => handleInputChange('targetPay', e.target.value)}
+                        placeholder="2500"
+                        className={`w-full p-2 text-sm border ${errors.targetPay ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        Target
+                      </label>
+                      <select
+                        value={inputs.targetMeasure}
+                        onChange={(e) => handleInputChange('targetMeasure', e.target.value)}
+                        className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {(Object.keys(targetMeasureLabels) as TargetMeasure[]).map(measure => (
+                          <option key={measure} value={measure}>{targetMeasureLabels[measure]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  {errors.targetPay && <p className="text-xs text-red-600">{errors.targetPay}</p>}
+                  <p className="text-xs text-gray-500">
+                    Solves for the {inputs.employmentType === 'casual' ? 'base hourly rate' : 'annual salary'} using the details below
+                  </p>
+                </div>
+              )}
+
+              {inputs.calculatorMode === 'final' && (
+                <div className="space-y-3 p-3 bg-orange-50 rounded-md border border-orange-200">
+                  <h3 className="text-sm font-semibold text-gray-900">Termination</h3>
+                  <p className="text-xs text-gray-500">
+                    Uses the employment end date below and pays out the closing leave balances
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        Reason
+                      </label>
+                      <select
+                        value={inputs.terminationReason}
+                        onChange={(e) => handleInputChange('terminationReason', e.target.value)}
+                        className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {(Object.keys(terminationReasonLabels) as TerminationReason[]).map(reason => (
+                          <option key={reason} value={reason}>{terminationReasonLabels[reason]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        Date of Birth
+                      </label>
+                      <input
+                        type="date"
+                        value={inputs.dateOfBirth}
+                        onChange={(e) => handleInputChange('dateOfBirth', e.target.value)}
+                        className={`w-full p-2 text-sm border ${errors.dateOfBirth ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                      />
+                    </div>
+                  </div>
+                  {errors.dateOfBirth && <p className="text-xs text-red-600">{errors.dateOfBirth}</p>}
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        Redundancy ($)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={inputs.redundancyPayment}
+                        onChange={(e) => handleInputChange('redundancyPayment', e.target.value)}
+                        placeholder="0"
+                        className={`w-full p-2 text-sm border ${errors.redundancyPayment ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        In Lieu of Notice ($)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={inputs.paymentInLieuOfNotice}
+                        onChange={(e) => handleInputChange('paymentInLieuOfNotice', e.target.value)}
+                        placeholder="0"
+                        className={`w-full p-2 text-sm border ${errors.paymentInLieuOfNotice ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        Other ETP ($)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={inputs.otherTerminationPayment}
+                        onChange={(e) => handleInputChange('otherTerminationPayment', e.target.value)}
+                        placeholder="0"
+                        className={`w-full p-2 text-sm border ${errors.otherTerminationPayment ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                      />
+                    </div>
+                  </div>
+                  {(errors.redundancyPayment || errors.paymentInLieuOfNotice || errors.otherTerminationPayment) && (
+                    <p className="text-xs text-red-600">
+                      {errors.redundancyPayment || errors.paymentInLieuOfNotice || errors.otherTerminationPayment}
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">
+                        Pay pro-rata long service leave
+                      </label>
+                      <p className="text-xs text-gray-500">
+                        Where payable before the full entitlement under state law
+                      </p>
+                    </div>
+                    <label className="relative inline-flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={inputs.payProRataLongServiceLeave}
+                        onChange={(e) => handleInputChange('payProRataLongServiceLeave', e.target.checked)}
+                        className="sr-only peer"
+                      />
+                      <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                    </label>
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Tax Year
@@ -344,11 +400,97 @@ const PayslipCalculator: React.FC = () => {
                 <select 
                   value={inputs.taxYear}
                   onChange={(e) => handleInputChange('taxYear', e.target.value)}
-                  className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  className={`w-full p-3 border ${errors.taxYear ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
                 >
-                  <option value="2024-25">2024-25</option>
-                  <option value="2025-26">2025-26</option>
+                  <option value="">From pay date{results && !inputs.taxYear ? ` (${results.rules.year})` : ''}</option>
+                  {rulesPacks.map((pack) => (
+                    <option key={pack.year} value={pack.year}>
+                      {pack.year}{pack.provisional ? ' (provisional)' : ''}
+                    </option>
+                  ))}
                 </select>
+                {errors.taxYear && <p className="mt-1 text-xs text-red-600">{errors.taxYear}</p>}
+              </div>
+
+              {/* TFN Declaration */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <h3 className="text-sm font-semibold text-gray-900">TFN Declaration</h3>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      TFN provided to employer
+                    </label>
+                    <p className="text-xs text-gray-500">
+                      Without a TFN, tax is withheld at the top marginal rate
+                    </p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={inputs.tfnProvided}
+                      onChange={(e) => handleInputChange('tfnProvided', e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600 peer-disabled:opacity-50"></div>
+                  </label>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Residency for Tax Purposes
+                  </label>
+                  <select 
+                    value={inputs.residencyStatus}
+                    onChange={(e) => handleInputChange('residencyStatus', e.target.value)}
+                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="resident">{residencyLabels.resident}</option>
+                    <option value="foreignResident">{residencyLabels.foreignResident}</option>
+                    <option value="workingHolidayMaker">{residencyLabels.workingHolidayMaker}</option>
+                  </select>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Claim the tax-free threshold
+                    </label>
+                    <p className="text-xs text-gray-500">
+                      Australian residents only - claim from one payer at a time
+                    </p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={inputs.claimsTaxFreeThreshold}
+                      onChange={(e) => handleInputChange('claimsTaxFreeThreshold', e.target.checked)}
+                      disabled={!inputs.tfnProvided || inputs.residencyStatus !== 'resident'}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600 peer-disabled:opacity-50"></div>
+                  </label>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Study or training support loan
+                    </label>
+                    <p className="text-xs text-gray-500">
+                      HELP, VSL, SFSS, SSL, ABSTUDY SSL, AASL or ALL debt
+                    </p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={inputs.hasStudyLoan}
+                      onChange={(e) => handleInputChange('hasStudyLoan', e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600 peer-disabled:opacity-50"></div>
+                  </label>
+                </div>
               </div>
 
               <div className="flex items-center justify-between p-3 bg-white rounded-md border border-gray-300">
@@ -371,6 +513,97 @@ const PayslipCalculator: React.FC = () => {
                 </label>
               </div>
 
+              <div className="flex items-center justify-between p-3 bg-white rounded-md border border-gray-300">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">
+                    Eligible for the Senior and Pensioner Tax Offset
+                  </label>
+                  <p className="text-xs text-gray-500">
+                    Age pension age, or receiving an eligible pension or allowance
+                  </p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={inputs.isSeniorOrPensioner}
+                    onChange={(e) => handleInputChange('isSeniorOrPensioner', e.target.checked)}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+              </div>
+
+              {/* Household */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <h3 className="text-sm font-semibold text-gray-900">Household (Medicare)</h3>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      I have a spouse
+                    </label>
+                    <p className="text-xs text-gray-500">
+                      Married or de facto for any part of the year
+                    </p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={inputs.hasSpouse}
+                      onChange={(e) => handleInputChange('hasSpouse', e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                  </label>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Spouse Income ($/yr)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={inputs.spouseIncome}
+                      onChange={(e) => handleInputChange('spouseIncome', e.target.value)}
+                      placeholder="0"
+                      disabled={!inputs.hasSpouse}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Dependent Children
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={inputs.dependentChildren}
+                      onChange={(e) => handleInputChange('dependentChildren', e.target.value)}
+                      placeholder="0"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Medicare Levy Exemption
+                  </label>
+                  <select
+                    value={inputs.medicareExemption}
+                    onChange={(e) => handleInputChange('medicareExemption', e.target.value)}
+                    className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {(Object.keys(medicareExemptionLabels) as MedicareExemption[]).map(exemption => (
+                      <option key={exemption} value={exemption}>{medicareExemptionLabels[exemption]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Pay Frequency
@@ -387,6 +620,28 @@ const PayslipCalculator: React.FC = () => {
                 </select>
               </div>
 
+              {results?.hasExtraPay && (
+                <div className="flex items-center justify-between p-3 bg-yellow-50 rounded-md border border-yellow-200">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Withhold for extra pay
+                    </label>
+                    <p className="text-xs text-gray-500">
+                      An extra {inputs.payFrequency} pay falls in this financial year
+                    </p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={inputs.withholdExtraPay}
+                      onChange={(e) => handleInputChange('withholdExtraPay', e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                  </label>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -396,8 +651,9 @@ const PayslipCalculator: React.FC = () => {
                     type="date"
                     value={inputs.payDate}
                     onChange={(e) => handleInputChange('payDate', e.target.value)}
-                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className={`w-full p-3 border ${errors.payDate ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
                   />
+                  {errors.payDate && <p className="mt-1 text-xs text-red-600">{errors.payDate}</p>}
                 </div>
 
                 <div>
@@ -408,27 +664,105 @@ const PayslipCalculator: React.FC = () => {
                     type="date"
                     value={inputs.periodEndDate}
                     onChange={(e) => handleInputChange('periodEndDate', e.target.value)}
-                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className={`w-full p-3 border ${errors.periodEndDate ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
                   />
+                  {errors.periodEndDate && <p className="mt-1 text-xs text-red-600">{errors.periodEndDate}</p>}
                 </div>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Annual Salary (Full-Time Equivalent)
+                  Employment Type
                 </label>
-                <div className="relative">
-                  <DollarSign className="absolute left-3 top-3 w-5 h-5 text-gray-400" />
-                  <input
-                    type="number"
-                    value={inputs.annualSalary}
-                    onChange={(e) => handleInputChange('annualSalary', e.target.value)}
-                    placeholder="66000"
-                    className="w-full pl-10 p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  />
-                </div>
+                <select 
+                  value={inputs.employmentType}
+                  onChange={(e) => handleInputChange('employmentType', e.target.value)}
+                  className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="fullTime">{employmentTypeLabels.fullTime}</option>
+                  <option value="partTime">{employmentTypeLabels.partTime}</option>
+                  <option value="casual">{employmentTypeLabels.casual}</option>
+                </select>
               </div>
 
+              {inputs.employmentType === 'casual' ? (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Base Hourly Rate
+                      </label>
+                      <div className="relative">
+                        <DollarSign className="absolute left-3 top-3 w-5 h-5 text-gray-400" />
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={results?.netToGross ? results.netToGross.rate.toFixed(2) : inputs.casualHourlyRate}
+                          onChange={(e) => handleInputChange('casualHourlyRate', e.target.value)}
+                          disabled={inputs.calculatorMode === 'reverse'}
+                          placeholder="28.12"
+                          className={`w-full pl-10 p-3 border ${errors.casualHourlyRate ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100`}
+                        />
+                      </div>
+                      {errors.casualHourlyRate && <p className="mt-1 text-xs text-red-600">{errors.casualHourlyRate}</p>}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Casual Loading (%)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        min="0"
+                        value={inputs.casualLoading}
+                        onChange={(e) => handleInputChange('casualLoading', e.target.value)}
+                        placeholder="25"
+                        className={`w-full p-3 border ${errors.casualLoading ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                      />
+                      {errors.casualLoading && <p className="mt-1 text-xs text-red-600">{errors.casualLoading}</p>}
+                    </div>
+                  </div>
+
+                  {inputs.earningsLines.length === 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        <Clock className="w-4 h-4 inline mr-1" />
+                        Hours Worked This Period
+                      </label>
+                      <input
+                        type="number"
+                        step="0.25"
+                        min="0"
+                        value={inputs.casualHours}
+                        onChange={(e) => handleInputChange('casualHours', e.target.value)}
+                        placeholder="30"
+                        className={`w-full p-3 border ${errors.casualHours ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                      />
+                      {errors.casualHours && <p className="mt-1 text-xs text-red-600">{errors.casualHours}</p>}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Annual Salary (Full-Time Equivalent)
+                  </label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-3 w-5 h-5 text-gray-400" />
+                    <input
+                      type="number"
+                      value={results?.netToGross ? results.netToGross.rate.toFixed(2) : inputs.annualSalary}
+                      onChange={(e) => handleInputChange('annualSalary', e.target.value)}
+                      disabled={inputs.calculatorMode === 'reverse'}
+                      placeholder="66000"
+                      className={`w-full pl-10 p-3 border ${errors.annualSalary ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100`}
+                    />
+                  </div>
+                  {errors.annualSalary && <p className="mt-1 text-xs text-red-600">{errors.annualSalary}</p>}
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Employment Start Date
@@ -437,8 +771,38 @@ const PayslipCalculator: React.FC = () => {
                   type="date"
                   value={inputs.employmentStartDate}
                   onChange={(e) => handleInputChange('employmentStartDate', e.target.value)}
-                  className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  className={`w-full p-3 border ${errors.employmentStartDate ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
                 />
+                {errors.employmentStartDate && <p className="mt-1 text-xs text-red-600">{errors.employmentStartDate}</p>}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Employment End Date
+                  </label>
+                  <input
+                    type="date"
+                    value={inputs.employmentEndDate}
+                    onChange={(e) => handleInputChange('employmentEndDate', e.target.value)}
+                    className={`w-full p-3 border ${errors.employmentEndDate ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                  />
+                  {errors.employmentEndDate && <p className="mt-1 text-xs text-red-600">{errors.employmentEndDate}</p>}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Pro-Rata Basis
+                  </label>
+                  <select
+                    value={inputs.proRataBasis}
+                    onChange={(e) => handleInputChange('proRataBasis', e.target.value)}
+                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="workingDays">Working days</option>
+                    <option value="calendarDays">Calendar days</option>
+                  </select>
+                </div>
               </div>
 
               <div className="grid grid-cols-2 gap-3">
@@ -453,8 +817,9 @@ const PayslipCalculator: React.FC = () => {
                     value={inputs.fullTimeHours}
                     onChange={(e) => handleInputChange('fullTimeHours', e.target.value)}
                     placeholder="38"
-                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className={`w-full p-3 border ${errors.fullTimeHours ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
                   />
+                  {errors.fullTimeHours && <p className="mt-1 text-xs text-red-600">{errors.fullTimeHours}</p>}
                 </div>
 
                 <div>
@@ -467,160 +832,1477 @@ const PayslipCalculator: React.FC = () => {
                     step="0.01"
                     min="0"
                     max="1"
-                    value={inputs.fte}
+                    value={inputs.employmentType === 'partTime' ? inputs.fte : inputs.employmentType === 'fullTime' ? '1.0' : ''}
                     onChange={(e) => handleInputChange('fte', e.target.value)}
+                    disabled={inputs.employmentType !== 'partTime'}
                     placeholder="1.0"
-                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className={`w-full p-3 border ${errors.fte ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100`}
                   />
+                  {errors.fte && <p className="mt-1 text-xs text-red-600">{errors.fte}</p>}
                 </div>
               </div>
-            </div>
-          </div>
-        </div>
 
-        {/* Results Section */}
-        <div className="xl:col-span-2">
-          <div className="bg-blue-50 p-6 rounded-lg">
-            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
-              <Calculator className="w-5 h-5" />
-              Calculated Results ({inputs.taxYear})
-            </h2>
+              {/* Salary History */}
+              {inputs.employmentType !== 'casual' && (
+                <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold text-gray-900">Salary Changes</h3>
+                    <button
+                      type="button"
+                      onClick={() => addListItem('salaryChanges', {
+                        id: createId(),
+                        effectiveDate: '',
+                        annualSalary: '',
+                        fte: ''
+                      })}
+                      className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add
+                    </button>
+                  </div>
 
-            {results ? (
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                {/* Current Period */}
-                <div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-3">This Pay Period</h3>
-                  <div className="bg-white p-4 rounded-md space-y-2">
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Hours Worked:</span>
-                      <span className="font-medium">{formatHours(results.hoursWorked)} hrs</span>
+                  {inputs.salaryChanges.length === 0 ? (
+                    <p className="text-xs text-gray-500">Salary and FTE above apply for the whole year</p>
+                  ) : (
+                    <p className="text-xs text-gray-500">Salary and FTE above apply until the first change; blank fields keep the previous value</p>
+                  )}
+
+                  {inputs.salaryChanges.map((change) => (
+                    <div key={change.id} className="space-y-2 border-t pt-3 first:border-t-0 first:pt-0">
+                      <div className="flex gap-2">
+                        <input
+                          type="date"
+                          value={change.effectiveDate}
+                          onChange={(e) => handleListItemChange('salaryChanges', change.id, 'effectiveDate', e.target.value)}
+                          className="flex-1 p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeListItem('salaryChanges', change.id)}
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          aria-label="Remove salary change"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          type="number"
+                          min="0"
+                          value={change.annualSalary}
+                          onChange={(e) => handleListItemChange('salaryChanges', change.id, 'annualSalary', e.target.value)}
+                          placeholder="Annual salary"
+                          className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="1"
+                          value={change.fte}
+                          onChange={(e) => handleListItemChange('salaryChanges', change.id, 'fte', e.target.value)}
+                          disabled={inputs.employmentType !== 'partTime'}
+                          placeholder="FTE"
+                          className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                        />
+                      </div>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Hourly Rate:</span>
-                      <span className="font-medium">{formatCurrency(results.hourlyRate)}</span>
+                  ))}
+                  {errors.salaryChanges && <p className="text-xs text-red-600">{errors.salaryChanges}</p>}
+                </div>
+              )}
+
+              {/* Timesheet Earnings */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-900">Timesheet Earnings</h3>
+                  <button
+                    type="button"
+                    onClick={() => addListItem('earningsLines', {
+                      id: createId(),
+                      type: 'ordinary',
+                      description: '',
+                      hours: '',
+                      multiplier: earningsTypeDefaults.ordinary.multiplier,
+                      amount: '',
+                      ote: earningsTypeDefaults.ordinary.ote
+                    })}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add
+                  </button>
+                </div>
+
+                {inputs.earningsLines.length === 0 ? (
+                  <p className="text-xs text-gray-500">Salaried pay for the period - add lines to pay from a timesheet</p>
+                ) : (
+                  <p className="text-xs text-gray-500">Hours are paid at the base hourly rate times the multiplier</p>
+                )}
+
+                {inputs.earningsLines.map((line) => (
+                  <div key={line.id} className="space-y-2 border-t pt-3 first:border-t-0 first:pt-0">
+                    <div className="flex gap-2">
+                      <select
+                        value={line.type}
+                        onChange={(e) => {
+                          const type = e.target.value as TimesheetEarningsType;
+                          handleListItemChange('earningsLines', line.id, 'type', type);
+                          handleListItemChange('earningsLines', line.id, 'multiplier', earningsTypeDefaults[type].multiplier);
+                          handleListItemChange('earningsLines', line.id, 'ote', earningsTypeDefaults[type].ote);
+                        }}
+                        className="flex-1 p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {(Object.keys(earningsTypeDefaults) as TimesheetEarningsType[]).map(type => (
+                          <option key={type} value={type}>{earningsTypeLabels[type]}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => removeListItem('earningsLines', line.id)}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        aria-label="Remove earnings line"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Gross Pay:</span>
-                      <span className="font-medium">{formatCurrency(results.grossPay)}</span>
+                    <input
+                      type="text"
+                      value={line.description}
+                      onChange={(e) => handleListItemChange('earningsLines', line.id, 'description', e.target.value)}
+                      placeholder="Description (optional)"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    {isAllowance(line.type) ? (
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.amount}
+                        onChange={(e) => handleListItemChange('earningsLines', line.id, 'amount', e.target.value)}
+                        placeholder="Amount ($)"
+                        className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    ) : (
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          type="number"
+                          step="0.25"
+                          min="0"
+                          value={line.hours}
+                          onChange={(e) => handleListItemChange('earningsLines', line.id, 'hours', e.target.value)}
+                          placeholder="Hours"
+                          className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <input
+                          type="number"
+                          step="0.05"
+                          min="0"
+                          value={line.multiplier}
+                          onChange={(e) => handleListItemChange('earningsLines', line.id, 'multiplier', e.target.value)}
+                          placeholder="Rate multiplier"
+                          className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    )}
+                    <label className="flex items-center gap-2 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={line.ote}
+                        onChange={(e) => handleListItemChange('earningsLines', line.id, 'ote', e.target.checked)}
+                        className="rounded border-gray-300"
+                      />
+                      Ordinary time earnings (super applies)
+                    </label>
+                  </div>
+                ))}
+                {errors.earningsLines && <p className="text-xs text-red-600">{errors.earningsLines}</p>}
+              </div>
+
+              {/* One-Off Payments */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-900">One-Off Payments</h3>
+                  <button
+                    type="button"
+                    onClick={() => addListItem('oneOffPayments', {
+                      id: createId(),
+                      type: 'bonus',
+                      description: '',
+                      amount: '',
+                      periods: '1',
+                      ote: oneOffPaymentDefaults.bonus.ote
+                    })}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add
+                  </button>
+                </div>
+
+                {inputs.oneOffPayments.length === 0 ? (
+                  <p className="text-xs text-gray-500">No bonuses, commissions or back pay this period</p>
+                ) : (
+                  <p className="text-xs text-gray-500">Withheld using the ATO marginal method, spread over the pay periods each payment covers. Prior-year back pay is withheld on annual earnings.</p>
+                )}
+
+                {inputs.oneOffPayments.map((payment) => (
+                  <div key={payment.id} className="space-y-2 border-t pt-3 first:border-t-0 first:pt-0">
+                    <div className="flex gap-2">
+                      <select
+                        value={payment.type}
+                        onChange={(e) => {
+                          const type = e.target.value as OneOffPaymentType;
+                          handleListItemChange('oneOffPayments', payment.id, 'type', type);
+                          handleListItemChange('oneOffPayments', payment.id, 'ote', oneOffPaymentDefaults[type].ote);
+                        }}
+                        className="flex-1 p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {(Object.keys(oneOffPaymentDefaults) as OneOffPaymentType[]).map(type => (
+                          <option key={type} value={type}>{earningsTypeLabels[type]}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => removeListItem('oneOffPayments', payment.id)}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        aria-label="Remove payment"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Taxable Income:</span>
-                      <span className="font-medium">{formatCurrency(results.taxableIncome)}</span>
+                    <input
+                      type="text"
+                      value={payment.description}
+                      onChange={(e) => handleListItemChange('oneOffPayments', payment.id, 'description', e.target.value)}
+                      placeholder="Description (optional)"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={payment.amount}
+                        onChange={(e) => handleListItemChange('oneOffPayments', payment.id, 'amount', e.target.value)}
+                        placeholder="Amount ($)"
+                        className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <input
+                        type="number"
+                        step="1"
+                        min="1"
+                        value={payment.periods}
+                        onChange={(e) => handleListItemChange('oneOffPayments', payment.id, 'periods', e.target.value)}
+                        placeholder="Periods covered"
+                        className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Income Tax:</span>
-                      <span className="font-medium text-red-600">-{formatCurrency(results.tax)}</span>
+                    <label className="flex items-center gap-2 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={payment.ote}
+                        onChange={(e) => handleListItemChange('oneOffPayments', payment.id, 'ote', e.target.checked)}
+                        className="rounded border-gray-300"
+                      />
+                      Ordinary time earnings (super applies)
+                    </label>
+                  </div>
+                ))}
+                {errors.oneOffPayments && <p className="text-xs text-red-600">{errors.oneOffPayments}</p>}
+              </div>
+
+              {/* Leave */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <h3 className="text-sm font-semibold text-gray-900">Leave</h3>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Annual Leave (days/yr)
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={inputs.annualLeaveDays}
+                      onChange={(e) => handleInputChange('annualLeaveDays', e.target.value)}
+                      placeholder="20"
+                      disabled={inputs.employmentType === 'casual'}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Personal Leave (days/yr)
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={inputs.personalLeaveDays}
+                      onChange={(e) => handleInputChange('personalLeaveDays', e.target.value)}
+                      placeholder="10"
+                      disabled={inputs.employmentType === 'casual'}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Long Service Leave State
+                    </label>
+                    <select
+                      value={inputs.longServiceLeaveState}
+                      onChange={(e) => handleInputChange('longServiceLeaveState', e.target.value)}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {(Object.keys(longServiceLeaveRules) as AustralianState[]).map(state => (
+                        <option key={state} value={state}>{state}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Leave Loading (%)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      value={inputs.leaveLoading}
+                      onChange={(e) => handleInputChange('leaveLoading', e.target.value)}
+                      placeholder="17.5"
+                      disabled={inputs.employmentType === 'casual'}
+                      className={`w-full p-2 text-sm border ${errors.leaveLoading ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100`}
+                    />
+                    {errors.leaveLoading && <p className="mt-1 text-xs text-red-600">{errors.leaveLoading}</p>}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 text-xs font-medium text-gray-700">
+                  <span></span>
+                  <span>Opening (hrs)</span>
+                  <span>Taken (hrs)</span>
+                </div>
+                {([
+                  ['annual', 'openingAnnualLeave', 'annualLeaveTaken'],
+                  ['personal', 'openingPersonalLeave', 'personalLeaveTaken'],
+                  ['longService', 'openingLongServiceLeave', 'longServiceLeaveTaken']
+                ] as Array<[LeaveType, keyof InputState, keyof InputState]>)
+                  .filter(([type]) => inputs.employmentType !== 'casual' || type === 'longService')
+                  .map(([type, openingField, takenField]) => (
+                    <div key={type} className="grid grid-cols-3 gap-2 items-center">
+                      <span className="text-xs text-gray-600">{leaveTypeLabels[type]}</span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={inputs[openingField] as string}
+                        onChange={(e) => handleInputChange(openingField, e.target.value)}
+                        placeholder="0"
+                        className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <input
+                        type="number"
+                        step="0.25"
+                        min="0"
+                        value={inputs[takenField] as string}
+                        onChange={(e) => handleInputChange(takenField, e.target.value)}
+                        placeholder="0"
+                        className={`p-2 text-sm border ${errors[takenField] ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                      />
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Medicare Levy (2%):</span>
-                      <span className="font-medium text-red-600">-{formatCurrency(results.medicareLevy)}</span>
+                  ))}
+                {(['annualLeaveTaken', 'personalLeaveTaken', 'longServiceLeaveTaken'] as const)
+                  .filter(field => errors[field])
+                  .map(field => <p key={field} className="text-xs text-red-600">{errors[field]}</p>)}
+              </div>
+
+              {/* Pre-Tax Deductions */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-900">Pre-Tax Deductions</h3>
+                  <button
+                    type="button"
+                    onClick={() => addListItem('preTaxDeductions', {
+                      id: createId(),
+                      type: 'superSacrifice',
+                      description: '',
+                      amountType: 'fixed',
+                      amount: ''
+                    })}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add
+                  </button>
+                </div>
+
+                {inputs.preTaxDeductions.length === 0 && (
+                  <p className="text-xs text-gray-500">No salary packaging arrangements</p>
+                )}
+
+                {inputs.preTaxDeductions.map((deduction) => (
+                  <div key={deduction.id} className="space-y-2 border-t pt-3 first:border-t-0 first:pt-0">
+                    <div className="flex gap-2">
+                      <select
+                        value={deduction.type}
+                        onChange={(e) => handleListItemChange('preTaxDeductions', deduction.id, 'type', e.target.value)}
+                        className="flex-1 p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="superSacrifice">{preTaxDeductionLabels.superSacrifice}</option>
+                        <option value="novatedLease">{preTaxDeductionLabels.novatedLease}</option>
+                        <option value="other">{preTaxDeductionLabels.other}</option>
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => removeListItem('preTaxDeductions', deduction.id)}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        aria-label="Remove deduction"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
                     </div>
-                    {results.medicareLevySurcharge > 0 && (
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Medicare Levy Surcharge:</span>
-                        <span className="font-medium text-red-600">-{formatCurrency(results.medicareLevySurcharge)}</span>
-                      </div>
-                    )}
-                    <div className="flex justify-between border-t pt-2">
-                      <span className="text-gray-900 font-semibold">Net Income:</span>
-                      <span className="font-bold text-green-600">{formatCurrency(results.netIncome)}</span>
+                    <input
+                      type="text"
+                      value={deduction.description}
+                      onChange={(e) => handleListItemChange('preTaxDeductions', deduction.id, 'description', e.target.value)}
+                      placeholder="Description (optional)"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        value={deduction.amountType}
+                        onChange={(e) => handleListItemChange('preTaxDeductions', deduction.id, 'amountType', e.target.value)}
+                        className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="fixed">$ per period</option>
+                        <option value="percentage">% of gross</option>
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={deduction.amount}
+                        onChange={(e) => handleListItemChange('preTaxDeductions', deduction.id, 'amount', e.target.value)}
+                        placeholder={deduction.amountType === 'percentage' ? '5' : '200'}
+                        className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Superannuation ({(superRates[inputs.taxYear] * 100).toFixed(1)}%):</span>
-                      <span className="font-medium">{formatCurrency(results.superannuation)}</span>
+                  </div>
+                ))}
+                {errors.preTaxDeductions && <p className="text-xs text-red-600">{errors.preTaxDeductions}</p>}
+              </div>
+
+              {/* Post-Tax Deductions */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-900">Post-Tax Deductions</h3>
+                  <button
+                    type="button"
+                    onClick={() => addListItem('postTaxDeductions', {
+                      id: createId(),
+                      type: 'unionFees',
+                      description: '',
+                      amountType: 'fixed',
+                      amount: '',
+                      taxDeductible: true
+                    })}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add
+                  </button>
+                </div>
+
+                {inputs.postTaxDeductions.length === 0 && (
+                  <p className="text-xs text-gray-500">No deductions from net pay</p>
+                )}
+
+                {inputs.postTaxDeductions.map((deduction) => (
+                  <div key={deduction.id} className="space-y-2 border-t pt-3 first:border-t-0 first:pt-0">
+                    <div className="flex gap-2">
+                      <select
+                        value={deduction.type}
+                        onChange={(e) => {
+                          handleListItemChange('postTaxDeductions', deduction.id, 'type', e.target.value);
+                          handleListItemChange('postTaxDeductions', deduction.id, 'taxDeductible',
+                            taxDeductiblePostTaxDeductions.includes(e.target.value as PostTaxDeductionType));
+                        }}
+                        className="flex-1 p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {(Object.keys(postTaxDeductionLabels) as PostTaxDeductionType[]).map(type => (
+                          <option key={type} value={type}>{postTaxDeductionLabels[type]}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => removeListItem('postTaxDeductions', deduction.id)}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        aria-label="Remove deduction"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Annual Leave Accrual:</span>
-                      <span className="font-medium">{formatHours(results.annualLeaveAccrual)} hrs</span>
+                    <input
+                      type="text"
+                      value={deduction.description}
+                      onChange={(e) => handleListItemChange('postTaxDeductions', deduction.id, 'description', e.target.value)}
+                      placeholder="Description (optional)"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        value={deduction.amountType}
+                        onChange={(e) => handleListItemChange('postTaxDeductions', deduction.id, 'amountType', e.target.value)}
+                        className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="fixed">$ per period</option>
+                        <option value="percentage">% of gross</option>
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={deduction.amount}
+                        onChange={(e) => handleListItemChange('postTaxDeductions', deduction.id, 'amount', e.target.value)}
+                        placeholder={deduction.amountType === 'percentage' ? '1' : '25'}
+                        className="p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
                     </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={deduction.taxDeductible}
+                        onChange={(e) => handleListItemChange('postTaxDeductions', deduction.id, 'taxDeductible', e.target.checked)}
+                        className="rounded border-gray-300"
+                      />
+                      Tax deductible (reduces the annual liability estimate)
+                    </label>
+                  </div>
+                ))}
+                {errors.postTaxDeductions && <p className="text-xs text-red-600">{errors.postTaxDeductions}</p>}
+              </div>
+
+              {/* Payslip Details */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <h3 className="text-sm font-semibold text-gray-900">Payslip Details</h3>
+                <p className="text-xs text-gray-500">
+                  Shown on the printed and PDF payslip and in the STP export
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Employer Name
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.employerName}
+                      onChange={(e) => handleInputChange('employerName', e.target.value)}
+                      placeholder="Acme Pty Ltd"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Employer ABN
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.employerAbn}
+                      onChange={(e) => handleInputChange('employerAbn', e.target.value)}
+                      placeholder="51 824 753 556"
+                      className={`w-full p-2 text-sm border ${errors.employerAbn ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                    />
+                  </div>
+                </div>
+                {errors.employerAbn && <p className="text-xs text-red-600">{errors.employerAbn}</p>}
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Employee Name
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.employeeName}
+                      onChange={(e) => handleInputChange('employeeName', e.target.value)}
+                      placeholder="Alex Citizen"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Super Fund
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.superFundName}
+                      onChange={(e) => handleInputChange('superFundName', e.target.value)}
+                      placeholder="Fund name and USI"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Employee ID
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.employeeId}
+                      onChange={(e) => handleInputChange('employeeId', e.target.value)}
+                      placeholder="E001"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      TFN
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.employeeTfn}
+                      onChange={(e) => handleInputChange('employeeTfn', e.target.value)}
+                      placeholder="123 456 782"
+                      disabled={!inputs.tfnProvided}
+                      className={`w-full p-2 text-sm border ${errors.employeeTfn ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100`}
+                    />
                   </div>
                 </div>
+                {errors.employeeTfn && <p className="text-xs text-red-600">{errors.employeeTfn}</p>}
+                <p className="text-xs text-gray-500">
+                  Employee ID and TFN are only used in the STP export
+                </p>
+              </div>
 
-                {/* YTD Figures */}
+              {/* Employer Costs */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <h3 className="text-sm font-semibold text-gray-900">Employer Costs</h3>
+                <p className="text-xs text-gray-500">
+                  Used for payroll tax and workers compensation in the employer view
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Payroll Tax State
+                    </label>
+                    <select
+                      value={inputs.payrollTaxState}
+                      onChange={(e) => handleInputChange('payrollTaxState', e.target.value)}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {(Object.keys(longServiceLeaveRules) as AustralianState[]).map(state => (
+                        <option key={state} value={state}>{state}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Workers Comp Rate (%)
+                    </label>
+                    <input
+                      type="number"
+                      value={inputs.workersCompRate}
+                      onChange={(e) => handleInputChange('workersCompRate', e.target.value)}
+                      placeholder="1.5"
+                      className={`w-full p-2 text-sm border ${errors.workersCompRate ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                    />
+                  </div>
+                </div>
+                {errors.workersCompRate && <p className="text-xs text-red-600">{errors.workersCompRate}</p>}
                 <div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-3">Year to Date</h3>
-                  <div className="bg-white p-4 rounded-md space-y-2">
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">YTD Gross:</span>
-                      <span className="font-medium">{formatCurrency(results.ytd.gross)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">YTD Income Tax:</span>
-                      <span className="font-medium text-red-600">-{formatCurrency(results.ytd.tax)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">YTD Medicare Levy:</span>
-                      <span className="font-medium text-red-600">-{formatCurrency(results.ytd.medicareLevy)}</span>
-                    </div>
-                    {results.ytd.medicareLevySurcharge > 0 && (
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Employer&apos;s Other Annual Wages
+                  </label>
+                  <input
+                    type="number"
+                    value={inputs.employerOtherWages}
+                    onChange={(e) => handleInputChange('employerOtherWages', e.target.value)}
+                    placeholder="0"
+                    className={`w-full p-2 text-sm border ${errors.employerOtherWages ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Taxable wages and super for everyone else, including group members - payroll tax only applies above the threshold
+                  </p>
+                </div>
+                {errors.employerOtherWages && <p className="text-xs text-red-600">{errors.employerOtherWages}</p>}
+              </div>
+
+              {/* Bank Payment */}
+              <div className="space-y-3 p-3 bg-white rounded-md border border-gray-300">
+                <h3 className="text-sm font-semibold text-gray-900">Bank Payment</h3>
+                <p className="text-xs text-gray-500">
+                  Used for the ABA direct entry file your bank uploads to pay the employee
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Employee BSB
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.bankBsb}
+                      onChange={(e) => handleInputChange('bankBsb', e.target.value)}
+                      placeholder="062-000"
+                      className={`w-full p-2 text-sm border ${errors.bankBsb ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Employee Account Number
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.bankAccountNumber}
+                      onChange={(e) => handleInputChange('bankAccountNumber', e.target.value)}
+                      placeholder="12345678"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                {errors.bankBsb && <p className="text-xs text-red-600">{errors.bankBsb}</p>}
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Employee Account Name
+                  </label>
+                  <input
+                    type="text"
+                    value={inputs.bankAccountName}
+                    onChange={(e) => handleInputChange('bankAccountName', e.target.value)}
+                    placeholder="Alex Citizen"
+                    className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Employer BSB
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.employerBsb}
+                      onChange={(e) => handleInputChange('employerBsb', e.target.value)}
+                      placeholder="063-000"
+                      className={`w-full p-2 text-sm border ${errors.employerBsb ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Employer Account Number
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.employerAccountNumber}
+                      onChange={(e) => handleInputChange('employerAccountNumber', e.target.value)}
+                      placeholder="87654321"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                {errors.employerBsb && <p className="text-xs text-red-600">{errors.employerBsb}</p>}
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Employer Account Name
+                  </label>
+                  <input
+                    type="text"
+                    value={inputs.employerAccountName}
+                    onChange={(e) => handleInputChange('employerAccountName', e.target.value)}
+                    placeholder="Acme Pty Ltd"
+                    className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Bank Code
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.employerBankCode}
+                      onChange={(e) => handleInputChange('employerBankCode', e.target.value)}
+                      placeholder="CBA"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      APCA User ID
+                    </label>
+                    <input
+                      type="text"
+                      value={inputs.employerApcaId}
+                      onChange={(e) => handleInputChange('employerApcaId', e.target.value)}
+                      placeholder="301500"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Amount Paid
+                    </label>
+                    <select
+                      value={abaOptions.amount}
+                      onChange={(e) => setAbaOptions(prev => ({ ...prev, amount: e.target.value as AbaPaymentAmount }))}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="takeHome">Take-home pay</option>
+                      <option value="net">Net pay</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Description
+                    </label>
+                    <input
+                      type="text"
+                      value={abaOptions.description}
+                      onChange={(e) => setAbaOptions(prev => ({ ...prev, description: e.target.value }))}
+                      maxLength={12}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={abaOptions.balanced}
+                    onChange={(e) => setAbaOptions(prev => ({ ...prev, balanced: e.target.checked }))}
+                    className="rounded border-gray-300"
+                  />
+                  Balance the file with a debit from the employer account (some banks require this)
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Results Section */}
+        <div className="xl:col-span-2">
+          <div className="bg-blue-50 p-6 rounded-lg">
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+              <Calculator className="w-5 h-5" />
+              Calculated Results{results && ` (${results.rules.year})`}
+            </h2>
+
+            {results && (
+              <div className="grid grid-cols-2 gap-1 p-1 mb-6 bg-gray-200 rounded-md">
+                {(['employee', 'employer'] as const).map(view => (
+                  <button
+                    key={view}
+                    type="button"
+                    onClick={() => setResultsView(view)}
+                    className={`py-2 text-sm font-medium rounded ${resultsView === view ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                  >
+                    {view === 'employee' ? 'Employee view' : 'Employer view'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {results && employerCost && resultsView === 'employer' ? (
+              <EmployerCostView cost={employerCost} results={results} />
+            ) : (
+              <>
+                {results?.netToGross && (
+                  <div className="mb-6 p-4 bg-blue-50 rounded-md border border-blue-200">
+                    <h3 className="text-lg font-medium text-gray-900 mb-3">Net to Gross</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
                       <div className="flex justify-between">
-                        <span className="text-gray-600">YTD Medicare Levy Surcharge:</span>
-                        <span className="font-medium text-red-600">-{formatCurrency(results.ytd.medicareLevySurcharge)}</span>
+                        <span className="text-gray-600">Target {targetMeasureLabels[results.netToGross.measure].toLowerCase()}:</span>
+                        <span className="font-medium">{formatCurrency(results.netToGross.target)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">
+                          {results.netToGross.field === 'annualSalary' ? 'Required Annual Salary:' : 'Required Base Hourly Rate:'}
+                        </span>
+                        <span className="font-bold text-blue-600">{formatCurrency(results.netToGross.rate)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Calculated {targetMeasureLabels[results.netToGross.measure].toLowerCase()}:</span>
+                        <span className="font-medium">{formatCurrency(results.netToGross.achieved)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Difference:</span>
+                        <span className={`font-medium ${Math.abs(results.netToGross.difference) < 0.005 ? 'text-green-600' : 'text-orange-600'}`}>
+                          {formatCurrency(results.netToGross.difference)}
+                        </span>
                       </div>
-                    )}
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">YTD Net:</span>
-                      <span className="font-medium text-green-600">{formatCurrency(results.ytd.net)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">YTD Super:</span>
-                      <span className="font-medium">{formatCurrency(results.ytd.super)}</span>
                     </div>
                   </div>
+                )}
 
-                  {/* Employment Summary */}
-                  <h3 className="text-lg font-medium text-gray-900 mb-3 mt-6">Employment Summary</h3>
-                  <div className="bg-white p-4 rounded-md space-y-2">
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Effective Annual Salary:</span>
-                      <span className="font-medium">{formatCurrency(results.effectiveAnnualSalary)}</span>
+                {results?.finalPay && (
+                  <div className="mb-6 p-4 bg-orange-50 rounded-md border border-orange-200">
+                    <h3 className="text-lg font-medium text-gray-900 mb-3">Final Pay</h3>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-600">
+                            <th className="py-1 font-medium">Payment</th>
+                            <th className="py-1 font-medium text-right">Amount</th>
+                            <th className="py-1 font-medium text-right">Tax-Free</th>
+                            <th className="py-1 font-medium text-right">Withheld</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {results.finalPay.lines.map((line) => (
+                            <tr key={line.id} className="border-t border-orange-100">
+                              <td className="py-1 text-gray-600">{line.label}</td>
+                              <td className="py-1 text-right font-medium">{formatCurrency(line.amount)}</td>
+                              <td className="py-1 text-right">{formatCurrency(line.taxFree)}</td>
+                              <td className="py-1 text-right text-red-600">-{formatCurrency(line.withholding)}</td>
+                            </tr>
+                          ))}
+                          <tr className="border-t border-orange-200 font-semibold">
+                            <td className="py-1">Total</td>
+                            <td className="py-1 text-right">{formatCurrency(results.finalPay.gross)}</td>
+                            <td className="py-1 text-right">{formatCurrency(results.finalPay.taxFree)}</td>
+                            <td className="py-1 text-right text-red-600">-{formatCurrency(results.finalPay.withholding)}</td>
+                          </tr>
+                        </tbody>
+                      </table>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">FTE:</span>
-                      <span className="font-medium">{formatRate(results.fte)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Hours/Week:</span>
-                      <span className="font-medium">{formatHours(parseFloat(inputs.fullTimeHours) * results.fte)}</span>
+                    {results.finalPay.lines.length === 0 && (
+                      <p className="text-xs text-gray-500 mt-2">No leave balances or termination payments to pay out</p>
+                    )}
+                    <div className="mt-3 space-y-1 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Termination Payments (net):</span>
+                        <span className="font-medium">{formatCurrency(results.finalPay.net)}</span>
+                      </div>
+                      <div className="flex justify-between border-t border-orange-200 pt-1">
+                        <span className="text-gray-900 font-semibold">Total Final Deposit:</span>
+                        <span className="font-bold text-green-600">{formatCurrency(results.takeHomePay + results.finalPay.net)}</span>
+                      </div>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Pay Periods/Year:</span>
-                      <span className="font-medium">{results.periodsPerYear.toFixed(2)}</span>
+                    <p className="mt-3 text-xs text-gray-500">
+                      {terminationReasonLabels[results.finalPay.reason]} after {results.finalPay.completedYears} completed years of service.
+                      {results.finalPay.reason === 'genuineRedundancy' && ` Tax-free limit ${formatCurrency(results.finalPay.redundancyTaxFreeLimit)}.`}
+                      {results.finalPay.preservationAge !== null && ` Age ${results.finalPay.age}, preservation age ${results.finalPay.preservationAge}.`}
+                      {` ETP cap ${formatCurrency(results.finalPay.etpCap)} for ${results.rules.year}.`}
+                    </p>
+                  </div>
+                )}
+
+                {results ? (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {/* Current Period */}
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900 mb-3">This Pay Period</h3>
+                      <div className="bg-white p-4 rounded-md space-y-2">
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Pay Period:</span>
+                          <span className="font-medium">
+                            {formatDate(results.currentPeriod.start)} - {formatDate(results.currentPeriod.end)}
+                          </span>
+                        </div>
+                        {results.currentPeriod.proRata < 1 && (
+                          <div className="flex justify-between text-xs">
+                            <span className="text-gray-500">Pro-rated:</span>
+                            <span className="text-gray-500">
+                              {results.currentPeriod.daysPaid} of {results.currentPeriod.daysInPeriod} {results.proRataBasis === 'workingDays' ? 'working' : 'calendar'} days
+                            </span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Hours Worked:</span>
+                          <span className="font-medium">{formatHours(results.hoursWorked)} hrs</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">{results.employmentType === 'casual' ? 'Hourly Rate (incl. loading):' : 'Hourly Rate:'}</span>
+                          <span className="font-medium">{formatCurrency(results.hourlyRate)}</span>
+                        </div>
+                        {results.earningsLines.map((line) => (
+                          <div key={line.id} className="flex justify-between">
+                            <span className="text-gray-600">
+                              {line.label}{line.hours > 0 && ` (${formatHours(line.hours)} hrs @ ${formatCurrency(line.rate)})`}:
+                            </span>
+                            <span className="font-medium">{formatCurrency(line.amount)}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Gross Pay:</span>
+                          <span className="font-medium">{formatCurrency(results.grossPay)}</span>
+                        </div>
+                        {results.nonTaxableAllowances > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Non-Taxable Allowances:</span>
+                            <span className="font-medium">-{formatCurrency(results.nonTaxableAllowances)}</span>
+                          </div>
+                        )}
+                        {results.preTaxDeductions.map((deduction) => (
+                          <div key={deduction.id} className="flex justify-between">
+                            <span className="text-gray-600">{deduction.label}:</span>
+                            <span className="font-medium text-red-600">-{formatCurrency(deduction.amount)}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Taxable Income:</span>
+                          <span className="font-medium">{formatCurrency(results.taxableIncome)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">PAYG Withholding:</span>
+                          <span className="font-medium text-red-600">-{formatCurrency(results.withholding)}</span>
+                        </div>
+                        {results.oneOffWithholding > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Withholding on One-Off Payments:</span>
+                            <span className="font-medium text-red-600">-{formatCurrency(results.oneOffWithholding)}</span>
+                          </div>
+                        )}
+                        {results.extraPayWithholding > 0 && (
+                          <div className="flex justify-between text-xs">
+                            <span className="text-gray-500">Includes extra pay withholding:</span>
+                            <span className="text-gray-500">{formatCurrency(results.extraPayWithholding)}</span>
+                          </div>
+                        )}
+                        {results.studyLoanWithholding > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">HELP Withholding:</span>
+                            <span className="font-medium text-red-600">-{formatCurrency(results.studyLoanWithholding)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between border-t pt-2">
+                          <span className="text-gray-900 font-semibold">Net Income:</span>
+                          <span className="font-bold text-green-600">{formatCurrency(results.netIncome)}</span>
+                        </div>
+                        {results.postTaxDeductions.length > 0 && (
+                          <>
+                            {results.postTaxDeductions.map((deduction) => (
+                              <div key={deduction.id} className="flex justify-between">
+                                <span className="text-gray-600">{deduction.label}:</span>
+                                <span className="font-medium text-red-600">-{formatCurrency(deduction.amount)}</span>
+                              </div>
+                            ))}
+                            <div className="flex justify-between border-t pt-2">
+                              <span className="text-gray-900 font-semibold">Take-Home (Bank Deposit):</span>
+                              <span className="font-bold text-green-600">{formatCurrency(results.takeHomePay)}</span>
+                            </div>
+                          </>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Super Guarantee ({(results.rules.super.guaranteeRate * 100).toFixed(1)}%):</span>
+                          <span className="font-medium">{formatCurrency(results.superGuarantee)}</span>
+                        </div>
+                        {results.superGuaranteeCapped && (
+                          <p className="text-xs text-gray-500">
+                            Limited to the maximum contribution base of {formatCurrency(results.maximumContributionBase)} for the {results.rules.super.contributionBasePeriod}
+                          </p>
+                        )}
+                        {results.ordinaryTimeEarnings !== results.grossPay && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-500">Ordinary Time Earnings:</span>
+                            <span className="text-gray-500">{formatCurrency(results.ordinaryTimeEarnings)}</span>
+                          </div>
+                        )}
+                        {results.superSalarySacrifice > 0 && (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">Super Salary Sacrifice:</span>
+                              <span className="font-medium">{formatCurrency(results.superSalarySacrifice)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">Total Employer Super:</span>
+                              <span className="font-medium">{formatCurrency(results.superannuation)}</span>
+                            </div>
+                          </>
+                        )}
+                      </div>
+
+                      {/* Leave Balances */}
+                      <h3 className="text-lg font-medium text-gray-900 mb-3 mt-6">Leave Balances (hrs)</h3>
+                      <div className="bg-white p-4 rounded-md">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-gray-500">
+                              <th className="text-left font-medium pb-2">Type</th>
+                              <th className="text-right font-medium pb-2">Opening</th>
+                              <th className="text-right font-medium pb-2">Accrued</th>
+                              <th className="text-right font-medium pb-2">Taken</th>
+                              <th className="text-right font-medium pb-2">Closing</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {(Object.keys(leaveTypeLabels) as LeaveType[])
+                              .filter(type => results.employmentType !== 'casual' || type === 'longService')
+                              .map(type => (
+                                <tr key={type}>
+                                  <td className="text-gray-600 py-1">{leaveTypeLabels[type]}</td>
+                                  <td className="text-right">{formatHours(results.leave[type].opening)}</td>
+                                  <td className="text-right">{formatHours(results.leave[type].accrued)}</td>
+                                  <td className="text-right">{formatHours(results.leave[type].taken)}</td>
+                                  <td className={`text-right font-medium ${results.leave[type].closing < 0 ? 'text-red-600' : ''}`}>
+                                    {formatHours(results.leave[type].closing)}
+                                  </td>
+                                </tr>
+                              ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      {/* Super Contributions */}
+                      <h3 className="text-lg font-medium text-gray-900 mb-3 mt-6">Super Contributions</h3>
+                      <div className="bg-white p-4 rounded-md">
+                        {results.concessionalContributions.annual > results.concessionalContributions.cap && (
+                          <p className="mb-3 text-sm text-orange-600 font-medium">
+                            Projected contributions of {formatCurrency(results.concessionalContributions.annual)} will exceed the {formatCurrency(results.concessionalContributions.cap)} concessional cap
+                          </p>
+                        )}
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-gray-500">
+                              <th className="text-left font-medium pb-2">{results.paydaySuper ? 'Pay' : 'Quarter'}</th>
+                              <th className="text-right font-medium pb-2">SG</th>
+                              <th className="text-right font-medium pb-2">Total</th>
+                              <th className="text-right font-medium pb-2">Due</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {results.superContributions.map((contribution) => (
+                              <tr key={contribution.id} className={contribution.projected ? 'text-gray-400' : ''}>
+                                <td className="py-1">{contribution.label}</td>
+                                <td className="text-right">{formatCurrency(contribution.superGuarantee)}</td>
+                                <td className="text-right font-medium">{formatCurrency(contribution.amount)}</td>
+                                <td className="text-right">{formatDate(contribution.dueDate)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <p className="mt-2 text-xs text-gray-500">Projected contributions for pays after this one are shown in grey</p>
+                      </div>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Pay Periods to Date:</span>
-                      <span className="font-medium">{results.periodsToDate}</span>
+
+                    {/* YTD Figures */}
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900 mb-3">Year to Date</h3>
+                      <div className="bg-white p-4 rounded-md space-y-2">
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">YTD Gross:</span>
+                          <span className="font-medium">{formatCurrency(results.ytd.gross)}</span>
+                        </div>
+                        {results.ytd.preTaxDeductions > 0 && (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">YTD Pre-Tax Deductions:</span>
+                              <span className="font-medium text-red-600">-{formatCurrency(results.ytd.preTaxDeductions)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">YTD Taxable Income:</span>
+                              <span className="font-medium">{formatCurrency(results.ytd.taxableIncome)}</span>
+                            </div>
+                          </>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">YTD PAYG Withheld:</span>
+                          <span className="font-medium text-red-600">-{formatCurrency(results.ytd.withholding)}</span>
+                        </div>
+                        {results.ytd.studyLoanWithholding > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">YTD HELP Withheld:</span>
+                            <span className="font-medium text-red-600">-{formatCurrency(results.ytd.studyLoanWithholding)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">YTD Net:</span>
+                          <span className="font-medium text-green-600">{formatCurrency(results.ytd.net)}</span>
+                        </div>
+                        {results.postTaxDeductions.length > 0 && (
+                          <>
+                            {results.postTaxDeductions.map((deduction) => (
+                              <div key={deduction.id} className="flex justify-between">
+                                <span className="text-gray-600">YTD {deduction.label}:</span>
+                                <span className="font-medium text-red-600">-{formatCurrency(deduction.ytd)}</span>
+                              </div>
+                            ))}
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">YTD Take-Home:</span>
+                              <span className="font-medium text-green-600">{formatCurrency(results.ytd.takeHome)}</span>
+                            </div>
+                          </>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">YTD Super:</span>
+                          <span className="font-medium">{formatCurrency(results.ytd.super)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Concessional Cap Used:</span>
+                          <span className={`font-medium ${results.concessionalContributions.annual > results.concessionalContributions.cap ? 'text-orange-600' : ''}`}>
+                            {formatCurrency(results.concessionalContributions.ytd)} / {formatCurrency(results.concessionalContributions.cap)}
+                          </span>
+                        </div>
+                      </div>
+
+                      {/* Annual Liability */}
+                      <h3 className="text-lg font-medium text-gray-900 mb-3 mt-6">Annual Liability Estimate</h3>
+                      <div className="bg-white p-4 rounded-md space-y-2">
+                        {results.annualLiability.deductions > 0 && (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">Deductions Claimed:</span>
+                              <span className="font-medium">-{formatCurrency(results.annualLiability.deductions)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">Taxable Income:</span>
+                              <span className="font-medium">{formatCurrency(results.annualLiability.taxableIncome)}</span>
+                            </div>
+                          </>
+                        )}
+                        {results.annualLiability.offsets.length > 0 && (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">Tax on Taxable Income:</span>
+                              <span className="font-medium">{formatCurrency(results.annualLiability.grossTax)}</span>
+                            </div>
+                            {results.annualLiability.offsets.map((offset) => (
+                              <div key={offset.id} className="flex justify-between">
+                                <span className="text-gray-600">{offset.label}:</span>
+                                <span className="font-medium text-green-600">-{formatCurrency(offset.amount)}</span>
+                              </div>
+                            ))}
+                          </>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Income Tax:</span>
+                          <span className="font-medium">{formatCurrency(results.annualLiability.tax)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Medicare Levy:</span>
+                          <span className="font-medium">{formatCurrency(results.annualLiability.medicareLevy)}</span>
+                        </div>
+                        {results.annualLiability.medicareLevySurcharge > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Medicare Levy Surcharge:</span>
+                            <span className="font-medium">{formatCurrency(results.annualLiability.medicareLevySurcharge)}</span>
+                          </div>
+                        )}
+                        {results.annualLiability.studyLoanRepayment > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Compulsory HELP Repayment:</span>
+                            <span className="font-medium">{formatCurrency(results.annualLiability.studyLoanRepayment)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between border-t pt-2">
+                          <span className="text-gray-900 font-semibold">Total Liability:</span>
+                          <span className="font-bold">{formatCurrency(results.annualLiability.total)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Total Withheld (annualised):</span>
+                          <span className="font-medium">{formatCurrency(results.annualLiability.withholding)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">
+                            {results.annualLiability.difference >= 0 ? 'Estimated Refund:' : 'Estimated Shortfall:'}
+                          </span>
+                          <span className={`font-medium ${results.annualLiability.difference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatCurrency(Math.abs(results.annualLiability.difference))}
+                          </span>
+                        </div>
+                      </div>
+
+                      {/* Employment Summary */}
+                      <h3 className="text-lg font-medium text-gray-900 mb-3 mt-6">Employment Summary</h3>
+                      <div className="bg-white p-4 rounded-md space-y-2">
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Employment Type:</span>
+                          <span className="font-medium">{employmentTypeLabels[results.employmentType]}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">
+                            {results.employmentType === 'casual' ? 'Annualised Equivalent:' : 'Effective Annual Salary:'}
+                          </span>
+                          <span className="font-medium">{formatCurrency(results.effectiveAnnualSalary)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">FTE:</span>
+                          <span className="font-medium">{formatRate(results.fte)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Hours/Week:</span>
+                          <span className="font-medium">{formatHours(parseFloat(inputs.fullTimeHours) * results.fte)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Pay Periods/Year:</span>
+                          <span className="font-medium">{results.periodsPerYear}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Pay Periods to Date:</span>
+                          <span className="font-medium">{results.periodsToDate}</span>
+                        </div>
+                        {results.nextPayDate && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Next Pay Date:</span>
+                            <span className="font-medium">{formatDate(results.nextPayDate)}</span>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              </div>
-            ) : (
-              <div className="text-gray-500 text-center py-8">
-                <Calendar className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                <p>Enter all required fields to see calculations</p>
-              </div>
+                ) : (
+                  <div className="text-gray-500 text-center py-8">
+                    <Calendar className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>
+                      {Object.keys(errors).length > 0
+                        ? `Fix ${Object.keys(errors).length === 1 ? 'the highlighted field' : `the ${Object.keys(errors).length} highlighted fields`} to see calculations`
+                        : 'Enter all required fields to see calculations'}
+                    </p>
+                  </div>
+                )}
+              </>
             )}
 
             {/* Calculation Notes */}
             {results && (
               <div className="mt-6 text-xs text-gray-500 bg-white p-3 rounded-md">
-                <p><strong>Calculation Notes ({inputs.taxYear}):</strong></p>
-                <p>• Income tax calculated using {inputs.taxYear} ATO rates</p>
-                <p>• Medicare levy (2%) applies to taxable income above thresholds</p>
-                {results.medicareLevySurcharge > 0 ? (
+                <p><strong>Calculation Notes ({results.rules.year}):</strong></p>
+                {results.rules.provisional && (
+                  <p className="text-orange-600 font-medium">
+                    • The {results.rules.year} rules are provisional - amounts not yet published are carried forward from the previous year
+                  </p>
+                )}
+                {results.rules.withholding.tablesYear ? (
+                  <p className="text-orange-600 font-medium">
+                    • PAYG withholding uses the {results.rules.withholding.tablesYear} ATO Schedule 1 tax tables ({withholdingScaleLabels[results.withholdingScale]}) until the {results.rules.year} tables are published, so it won&apos;t match the {results.rules.year} tax estimate
+                  </p>
+                ) : (
+                  <p>• PAYG withholding uses the ATO Schedule 1 tax tables ({withholdingScaleLabels[results.withholdingScale]})</p>
+                )}
+                {results.oneOffWithholding > 0 && (
+                  <p>• One-off payments withheld under Schedule 5 (marginal method) and shown separately from ordinary PAYG</p>
+                )}
+                {results.salaryChange && (
+                  <p className="text-blue-600 font-medium">
+                    • Salary change took effect on {formatDate(results.salaryChange.from as Date)}, partway through this pay period
+                  </p>
+                )}
+                <p>
+                  • YTD is the sum of {results.periodsToDate} {inputs.payFrequency} pay runs from the pay schedule
+                  {results.hasExtraPay && ` - this financial year has an extra pay${results.extraPayWithholding > 0 ? ', so an extra amount is withheld each pay' : ''}`}
+                </p>
+                <p>• Annual liability estimated using {results.rules.year} ATO rates{results.annualLiability.totalOffsets > 0 && ', less non-refundable tax offsets'}</p>
+                <p>• Tax rates for {residencyLabels[results.residencyStatus].toLowerCase()}s{!inputs.tfnProvided && ' - TFN not provided, top marginal rate applied'}</p>
+                {results.residencyStatus !== 'resident' ? (
+                  <p>• Medicare levy and surcharge don&apos;t apply to {residencyLabels[results.residencyStatus].toLowerCase()}s</p>
+                ) : (
+                  <p>
+                    • Medicare levy ({results.medicareExemption === 'full' ? 'fully exempt' : results.medicareExemption === 'half' ? '1% - half exemption' : '2%'})
+                    applies to taxable income above the {results.isFamily ? 'family' : 'single'}{inputs.isSeniorOrPensioner && ' senior'} thresholds and is included in withholding
+                  </p>
+                )}
+                {results.residencyStatus !== 'resident' ? null : results.annualLiability.medicareLevySurcharge > 0 ? (
                   <p className="text-orange-600 font-medium">• Medicare levy surcharge applies - no appropriate private health insurance</p>
                 ) : inputs.hasPrivateHealthInsurance ? (
                   <p className="text-green-600 font-medium">• No Medicare levy surcharge - you have private health insurance</p>
                 ) : (
-                  <p className="text-blue-600 font-medium">• No Medicare levy surcharge - income below threshold</p>
+                  <p className="text-blue-600 font-medium">• No Medicare levy surcharge - {results.isFamily ? 'family' : ''} income below threshold</p>
+                )}
+                {inputs.hasStudyLoan && (
+                  <p>• Study loan withheld under Schedule 8 ({results.rules.studyLoan.system === 'marginal' ? 'marginal repayment system' : 'percentage of repayment income'})</p>
+                )}
+                <p>• Super at {(results.rules.super.guaranteeRate * 100).toFixed(1)}% ({results.rules.year} rate) of ordinary time earnings, up to {formatCurrency(results.maximumContributionBase)} per {results.rules.super.contributionBasePeriod}</p>
+                {results.paydaySuper ? (
+                  <p>• Payday super: contributions are due with the fund within 7 business days of each pay day</p>
+                ) : (
+                  <p>• Super guarantee is due 28 days after the end of each quarter; payday super applies from 1 July 2026</p>
+                )}
+                {results.usesTimesheet && (
+                  <p>• Gross pay from timesheet lines at a base rate of {formatCurrency(results.hourlyRate)}/hr; non-taxable allowances are excluded from withholding</p>
                 )}
-                <p>• Super at {(superRates[inputs.taxYear] * 100).toFixed(1)}% ({inputs.taxYear} rate)</p>
-                <p>• Annual leave: 20 days/year (full-time), pro-rated for part-time</p>
+                {results.totalPreTaxDeductions > 0 && (
+                  <p>• Pre-tax deductions reduce taxable income; salary sacrificed to super counts towards MLS and study loan repayment income</p>
+                )}
+                {results.concessionalContributions.annual > results.concessionalContributions.cap ? (
+                  <p className="text-orange-600 font-medium">• Projected concessional contributions of {formatCurrency(results.concessionalContributions.annual)} exceed the {formatCurrency(results.concessionalContributions.cap)} cap</p>
+                ) : results.superSalarySacrifice > 0 && (
+                  <p>• {formatCurrency(results.concessionalContributions.remaining)} of the concessional contributions cap remains after projected contributions</p>
+                )}
+                {results.employmentType === 'casual' ? (
+                  <p>• Casual loading of {(results.casualLoading * 100).toFixed(1)}% paid in lieu of annual and personal leave</p>
+                ) : (
+                  <p>• Annual leave: {inputs.annualLeaveDays} days/year and personal/carer&apos;s leave: {inputs.personalLeaveDays} days/year, accrued on ordinary hours</p>
+                )}
+                {results.leaveLoading > 0 && (
+                  <p>• Annual leave loading of {inputs.leaveLoading}% paid on annual leave taken</p>
+                )}
+                <p>
+                  • Long service leave ({inputs.longServiceLeaveState}): {results.longServiceLeaveRule.weeksPerYear.toFixed(4)} weeks per year of service,
+                  entitlement after {results.longServiceLeaveRule.entitlementYears} years ({results.yearsOfService.toFixed(1)} years served)
+                </p>
                 <p>• FTE of {formatRate(results.fte)} = {formatHours(parseFloat(inputs.fullTimeHours) * results.fte)} hours/week</p>
+                <p>
+                  • {results.rules.year} rules in effect from {formatDate(parseDate(results.rules.effectiveFrom))}{inputs.taxYear ? '' : ', chosen from the pay date'}. Sources:{' '}
+                  {results.rules.sources.map((source, index) => (
+                    <span key={source.title}>
+                      {index > 0 && '; '}
+                      <a href={source.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-700">{source.title}</a>
+                    </span>
+                  ))}
+                </p>
               </div>
             )}
           </div>
+
+          {/* Payslip Document */}
+          {payslipDocument && (
+            <div className="mt-8">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold flex items-center gap-2">
+                  <FileText className="w-5 h-5" />
+                  Payslip
+                </h2>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => window.print()}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <Printer className="w-4 h-4" />
+                    Print
+                  </button>
+                  <button
+                    type="button"
+                    onClick={downloadPayslipPdf}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                  >
+                    <Download className="w-4 h-4" />
+                    Download PDF
+                  </button>
+                  <button
+                    type="button"
+                    onClick={exportStpPayload}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    STP Export
+                  </button>
+                  <button
+                    type="button"
+                    onClick={exportAbaFile}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    ABA File
+                  </button>
+                </div>
+              </div>
+              {stpErrors.length > 0 && (
+                <div className="mb-4 p-3 text-xs text-red-700 bg-red-50 rounded-md border border-red-200">
+                  <p className="font-medium">The STP payload doesn&apos;t pass schema validation:</p>
+                  {stpErrors.map(error => <p key={error}>• {error}</p>)}
+                </div>
+              )}
+              {abaErrors.length > 0 && (
+                <div className="mb-4 p-3 text-xs text-red-700 bg-red-50 rounded-md border border-red-200">
+                  <p className="font-medium">The ABA file can&apos;t be made yet:</p>
+                  {abaErrors.map(error => <p key={error}>• {error}</p>)}
+                </div>
+              )}
+              <PayslipDocumentView document={payslipDocument} />
+            </div>
+          )}
         </div>
       </div>
     </div>
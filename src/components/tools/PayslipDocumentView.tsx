@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { formatPayslipAmount, formatPayslipDate } from '@/lib/payroll';
+import type { PayslipDocument, PayslipDocumentLine } from '@/lib/payroll';
+
+interface PayslipDocumentViewProps {
+  document: PayslipDocument;
+}
+
+const AmountRows: React.FC<{ lines: PayslipDocumentLine[] }> = ({ lines }) => (
+  <>
+    {lines.map((line, index) => (
+      <tr key={`${index}-${line.label}`}>
+        <td className="py-1">{line.label}</td>
+        <td className="py-1 text-right text-gray-500">{line.hours !== undefined && `${line.hours.toFixed(2)} hrs`}</td>
+        <td className="py-1 text-right text-gray-500">{line.rate !== undefined && `@ ${formatPayslipAmount(line.rate)}`}</td>
+        <td className="py-1 text-right">{formatPayslipAmount(line.amount)}</td>
+      </tr>
+    ))}
+  </>
+);
+
+const TotalRow: React.FC<{ label: string; amount: number }> = ({ label, amount }) => (
+  <tr className="border-t border-gray-300 font-semibold">
+    <td className="py-1" colSpan={3}>{label}</td>
+    <td className="py-1 text-right">{formatPayslipAmount(amount)}</td>
+  </tr>
+);
+
+// Payslip laid out as a page. The print stylesheet in globals.css prints only this element.
+const PayslipDocumentView: React.FC<PayslipDocumentViewProps> = ({ document }) => {
+  const details: Array<[string, string]> = [
+    ['Employee', document.employeeName || '-'],
+    ['Employment type', document.employmentType],
+    ['Pay period', `${formatPayslipDate(document.periodStart)} - ${formatPayslipDate(document.periodEnd)}`],
+    ['Pay date', formatPayslipDate(document.payDate)],
+    ...(document.annualSalary !== null ? [['Annual salary', formatPayslipAmount(document.annualSalary)] as [string, string]] : []),
+    ['Ordinary hourly rate', formatPayslipAmount(document.hourlyRate)],
+    ['Hours worked', `${document.hoursWorked.toFixed(2)} hrs`]
+  ];
+
+  return (
+    <div className="payslip-document bg-white text-gray-900 p-8 rounded-md border border-gray-200 text-sm">
+      <div className="flex justify-between items-start mb-6">
+        <h2 className="text-2xl font-bold">Payslip</h2>
+        <div className="text-right">
+          <p className="font-semibold">{document.employerName || 'Employer'}</p>
+          {document.employerAbn && <p className="text-gray-500">ABN {document.employerAbn}</p>}
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-[10rem_1fr] gap-y-1 mb-6">
+        {details.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-gray-500">{label}</dt>
+            <dd>{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      <table className="w-full mb-6">
+        <thead>
+          <tr><th className="text-left text-base font-semibold pb-1" colSpan={4}>Earnings</th></tr>
+        </thead>
+        <tbody>
+          <AmountRows lines={document.earnings} />
+          <TotalRow label="Gross pay" amount={document.grossPay} />
+        </tbody>
+      </table>
+
+      <table className="w-full mb-6">
+        <thead>
+          <tr><th className="text-left text-base font-semibold pb-1" colSpan={4}>Deductions</th></tr>
+        </thead>
+        <tbody>
+          <AmountRows lines={document.deductions} />
+          <TotalRow label="Total deductions" amount={document.totalDeductions} />
+        </tbody>
+      </table>
+
+      <div className="flex justify-between text-lg font-bold mb-6">
+        <span>Net pay</span>
+        <span>{formatPayslipAmount(document.netPay)}</span>
+      </div>
+
+      <table className="w-full mb-6">
+        <thead>
+          <tr><th className="text-left text-base font-semibold pb-1" colSpan={4}>Superannuation</th></tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td className="py-1 text-gray-500">Fund</td>
+            <td className="py-1 text-right" colSpan={3}>{document.superFundName || '-'}</td>
+          </tr>
+          <AmountRows lines={document.superContributions} />
+        </tbody>
+      </table>
+
+      <table className="w-full mb-6">
+        <thead>
+          <tr><th className="text-left text-base font-semibold pb-1" colSpan={4}>Year to date</th></tr>
+        </thead>
+        <tbody>
+          <AmountRows lines={document.ytd} />
+        </tbody>
+      </table>
+
+      <p className="text-xs text-gray-500">Calculated with the {document.rulesYear} ATO tax tables</p>
+    </div>
+  );
+};
+
+export default PayslipDocumentView;
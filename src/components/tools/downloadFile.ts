@@ -0,0 +1,10 @@
+// Saves the contents as a file through a temporary link. The object URL is revoked on a later
+// tick so the browser has started the download before it goes away.
+export const downloadFile = (contents: BlobPart, fileName: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
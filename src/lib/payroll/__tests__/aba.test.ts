@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildAbaFile,
+  calculateBulkPayRun,
+  computePayslip,
+  defaultAbaFileOptions,
+  formatAbaFile,
+  validateAbaFile,
+  validateInputs
+} from '..';
+import { fortnightlyInput, rulesFor } from './fixtures';
+
+const rules = rulesFor('2025-26');
+
+const input = fortnightlyInput({
+  employerName: 'Acme Pty Ltd',
+  employerBsb: '063-000',
+  employerAccountNumber: '87654321',
+  employerAccountName: 'Acme Pty Ltd',
+  employerBankCode: 'cba',
+  employerApcaId: '301500',
+  bankBsb: '062000',
+  bankAccountNumber: '12345678',
+  bankAccountName: 'Alex Citizen',
+  postTaxDeductions: [{ id: 'union', type: 'unionFees', description: '', amountType: 'fixed', amount: '25', taxDeductible: true }]
+});
+
+const results = computePayslip(input, rules);
+
+describe('bank details', () => {
+  it('checks the BSB when one is entered', () => {
+    expect(validateInputs({ ...input, bankBsb: '06-2000' }, rules).bankBsb).toBeDefined();
+    expect(validateInputs({ ...input, bankBsb: '' }, rules).bankBsb).toBeUndefined();
+  });
+});
+
+describe('formatAbaFile', () => {
+  const abaFile = buildAbaFile([{ input, results }]);
+  const records = formatAbaFile(abaFile).split('\r\n').filter(Boolean);
+  const cents = Math.round(results.takeHomePay * 100);
+
+  it('passes validation', () => {
+    expect(validateAbaFile(abaFile)).toEqual([]);
+  });
+
+  it('writes 120-character descriptive, detail and total records', () => {
+    expect(records.map(record => record[0])).toEqual(['0', '1', '7']);
+    records.forEach(record => expect(record).toHaveLength(120));
+    const [descriptive] = records;
+    expect(descriptive.slice(18, 23)).toBe('01CBA');
+    expect(descriptive.slice(30, 56).trimEnd()).toBe('Acme Pty Ltd');
+    expect(descriptive.slice(56, 62)).toBe('301500');
+    expect(descriptive.slice(62, 74).trimEnd()).toBe('PAYROLL');
+    expect(descriptive.slice(74, 80)).toBe('161025');
+  });
+
+  it('pays take-home pay into the employee account', () => {
+    const detail = records[1];
+    expect(detail.slice(1, 8)).toBe('062-000');
+    expect(detail.slice(8, 17)).toBe(' 12345678');
+    expect(detail.slice(18, 20)).toBe('53');
+    expect(Number(detail.slice(20, 30))).toBe(cents);
+    expect(detail.slice(30, 62).trimEnd()).toBe('Alex Citizen');
+    expect(detail.slice(80, 96)).toBe('063-000 87654321');
+    expect(detail.slice(112)).toBe('00000000');
+  });
+
+  it('totals the credits', () => {
+    const total = records[2];
+    expect(total.slice(1, 8)).toBe('999-999');
+    expect(Number(total.slice(20, 30))).toBe(cents);
+    expect(Number(total.slice(30, 40))).toBe(cents);
+    expect(Number(total.slice(40, 50))).toBe(0);
+    expect(total.slice(74, 80)).toBe('000001');
+  });
+
+  it('can pay net pay and balance the file with a debit', () => {
+    const balanced = formatAbaFile(buildAbaFile([{ input, results }], { ...defaultAbaFileOptions, amount: 'net', balanced: true }))
+      .split('\r\n').filter(Boolean);
+    const netCents = Math.round(results.netIncome * 100);
+    expect(balanced.map(record => record[0])).toEqual(['0', '1', '1', '7']);
+    expect(balanced.slice(1, 3).map(record => record.slice(18, 20))).toEqual(['53', '13']);
+    expect(Number(balanced[2].slice(20, 30))).toBe(netCents);
+    expect(balanced[2].slice(1, 17)).toBe('063-000 87654321');
+    const total = balanced[3];
+    expect(Number(total.slice(20, 30))).toBe(0);
+    expect(Number(total.slice(30, 40))).toBe(netCents);
+    expect(Number(total.slice(40, 50))).toBe(netCents);
+    expect(total.slice(74, 80)).toBe('000002');
+  });
+});
+
+describe('validateAbaFile', () => {
+  it('reports missing bank details', () => {
+    const errors = validateAbaFile(buildAbaFile([{
+      input: { ...input, bankBsb: '', employerApcaId: '3015', employerBankCode: '' },
+      results
+    }]));
+    expect(errors).toEqual([
+      'Enter the three-letter code of the employer\'s bank, like CBA or WBC',
+      'Enter the 6-digit APCA user ID issued by the employer\'s bank',
+      'Payment 1 to Alex Citizen needs a 6-digit BSB'
+    ]);
+  });
+});
+
+describe('bulk pay run ABA file', () => {
+  it('pays each calculated employee from their bank columns', () => {
+    const csv = [
+      'name,employeeId,annualSalary,bsb,accountNumber,accountName',
+      'Alex Citizen,E001,85000,062-000,12345678,Alex Citizen',
+      'Sam Taylor,E002,72000,033-001,87654321,Sam Taylor'
+    ].join('\n');
+    const run = calculateBulkPayRun(csv, input);
+    const payslips = run.rows.flatMap(row => (row.input && row.results ? [{ input: row.input, results: row.results }] : []));
+    const abaFile = buildAbaFile(payslips);
+    expect(validateAbaFile(abaFile)).toEqual([]);
+    expect(abaFile.payments.map(payment => payment.account.bsb)).toEqual(['062-000', '033-001']);
+
+    const total = formatAbaFile(abaFile).split('\r\n')[3];
+    expect(Number(total.slice(30, 40))).toBe(Math.round(run.totals.takeHomePay * 100));
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBulkPayRun, defaultInputState, formatBulkPayRunCsv, formatCsv, parseCsv } from '..';
+import type { InputState } from '..';
+
+const shared: InputState = {
+  ...defaultInputState,
+  payFrequency: 'weekly',
+  payDate: '2025-10-16',
+  periodEndDate: '2025-10-16',
+  withholdExtraPay: false
+};
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('name,note\r\n"Citizen, Alex","said ""hi""\nthen left"\r\n')).toEqual([
+      ['name', 'note'],
+      ['Citizen, Alex', 'said "hi"\nthen left']
+    ]);
+  });
+
+  it('stops text cells being read as spreadsheet formulas', () => {
+    expect(formatCsv([['=HYPERLINK("http://example.com")', '+1', '-x', '@SUM(A1)', '-12.50', -3, 'Alex']])).toBe(
+      '"\'=HYPERLINK(""http://example.com"")",\'+1,\'-x,\'@SUM(A1),-12.50,-3,Alex\r\n'
+    );
+  });
+
+  it('round trips through formatCsv', () => {
+    const rows = [['a', 'b,c'], ['"d"', '']];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('calculateBulkPayRun', () => {
+  const csv = [
+    'Name,Employee ID,Salary,FTE,Start Date,Private Health,Shoe Size',
+    'Alex Citizen,E001,57379.40,1,2015-01-05,yes,9',
+    'Sam Taylor,E002,,1,2015-01-05,no,',
+    '',
+    'Jo Smith,E001,57379.40,1,2015-01-05,maybe,'
+  ].join('\n');
+  const run = calculateBulkPayRun(csv, shared);
+
+  it('calculates each line with the shared pay run inputs', () => {
+    expect(run.rows[0].name).toBe('Alex Citizen');
+    expect(run.rows[0].results?.withholding).toBe(176);
+    expect(run.ignoredColumns).toEqual(['Shoe Size']);
+  });
+
+  it('reports errors against their line and leaves them out of the totals', () => {
+    expect(run.rows.map(row => row.line)).toEqual([2, 3, 5]);
+    expect(run.rows[1].errors).toEqual(['Enter the annual salary']);
+    expect(run.rows[2].errors).toEqual([
+      'Employee ID E001 is already used on line 2',
+      'hasPrivateHealthInsurance must be true or false'
+    ]);
+    expect(run.totals.withholding).toBe(176);
+    expect(run.totals.grossPay).toBeCloseTo(1103.45, 2);
+  });
+
+  it('reports a malformed date against its line and calculates the rest', () => {
+    const datedRun = calculateBulkPayRun([
+      'name,annualSalary,employmentStartDate',
+      'Alex Citizen,57379.40,01/02/2024',
+      'Sam Taylor,57379.40,2015-01-05'
+    ].join('\n'), shared);
+    expect(datedRun.rows[0].errors).toEqual(['Enter the employment start date as YYYY-MM-DD']);
+    expect(datedRun.rows[0].results).toBeNull();
+    expect(datedRun.rows[1].results?.withholding).toBe(176);
+  });
+
+  it('exports a line per employee and a totals line', () => {
+    const exported = parseCsv(formatBulkPayRunCsv(run));
+    expect(exported).toHaveLength(5);
+    expect(exported[1].slice(0, 6)).toEqual(['2', 'E001', 'Alex Citizen', '2025-10-16', '1103.45', '176.00']);
+    expect(exported[4][2]).toBe('Total');
+  });
+
+  it('escapes formulas in names and IDs', () => {
+    const formulaRun = calculateBulkPayRun('name,employeeId,annualSalary,employmentStartDate\n=HYPERLINK(A1),@E1,57379.40,2015-01-05', shared);
+    expect(parseCsv(formatBulkPayRunCsv(formulaRun))[1].slice(1, 3)).toEqual(['\'@E1', '\'=HYPERLINK(A1)']);
+  });
+
+  it('needs a heading line', () => {
+    expect(calculateBulkPayRun('Alex,85000\n', shared).errors).toHaveLength(1);
+  });
+});
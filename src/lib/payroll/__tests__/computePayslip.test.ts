@@ -0,0 +1,363 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculatePayslipFromJson,
+  computePayslip,
+  defaultInputState,
+  PayslipInputError,
+  rulesPacks,
+  validateInputs,
+  validateTaxRulesPack
+} from '..';
+import type { InputState } from '..';
+import { rulesFor } from './fixtures';
+
+// Pay dates in October of each financial year. Thursdays avoid a 53rd weekly pay in any supported
+// year, and extra pay withholding is turned off so figures match the published tax tables.
+const payDates: Record<string, { weekly: string; monthly: string }> = {
+  '2023-24': { weekly: '2023-10-19', monthly: '2023-10-31' },
+  '2024-25': { weekly: '2024-10-17', monthly: '2024-10-31' },
+  '2025-26': { weekly: '2025-10-16', monthly: '2025-10-31' },
+  '2026-27': { weekly: '2026-10-15', monthly: '2026-10-31' }
+};
+
+const payslipInput = (year: string, frequency: 'weekly' | 'fortnightly' | 'monthly', overrides: Partial<InputState>): InputState => {
+  const payDate = frequency === 'monthly' ? payDates[year].monthly : payDates[year].weekly;
+  return {
+    ...defaultInputState,
+    payFrequency: frequency,
+    payDate,
+    periodEndDate: payDate,
+    employmentStartDate: '2015-01-05',
+    taxYear: year,
+    withholdExtraPay: false,
+    ...overrides
+  };
+};
+
+const withholdingFor = (year: string, frequency: 'weekly' | 'fortnightly' | 'monthly', overrides: Partial<InputState>): number => {
+  return computePayslip(payslipInput(year, frequency, overrides), rulesFor(year)).withholding;
+};
+
+// Annual salaries giving the period earnings in each case: $1,103.45 a week, $3,461.54 a
+// fortnight and $4,500.33 a month
+const weeklySalary = '57379.40';
+const fortnightlySalary = '90000';
+const monthlySalary = '54003.96';
+
+describe('rules packs', () => {
+  it('has a valid pack for every supported year', () => {
+    expect(rulesPacks.map(pack => pack.year)).toEqual(['2023-24', '2024-25', '2025-26', '2026-27']);
+    rulesPacks.forEach(pack => expect(validateTaxRulesPack(pack)).toEqual([]));
+  });
+
+  it('marks packs that withhold using an earlier year\'s tax tables', () => {
+    expect(rulesPacks.filter(pack => pack.withholding.tablesYear).map(pack => [pack.year, pack.withholding.tablesYear])).toEqual([['2026-27', '2025-26']]);
+  });
+
+  it('reports gaps in tax brackets', () => {
+    const rules = rulesFor('2025-26');
+    const broken = {
+      ...rules,
+      taxBrackets: { ...rules.taxBrackets, resident: rules.taxBrackets.resident.slice(1) }
+    };
+    expect(validateTaxRulesPack(broken)).toContain('resident tax brackets must start at $1 or less and run without gaps');
+  });
+});
+
+describe('Schedule 1 withholding', () => {
+  describe.each([
+    // Schedule 1 worked example - $1,103.45 a week with the tax-free threshold claimed
+    { year: '2023-24', scale2: 198, scale1: 319, foreignResident: 358, fortnightly: 828, monthly: 758 },
+    { year: '2024-25', scale2: 176, scale1: 288, foreignResident: 331, fortnightly: 754, monthly: 672 },
+    { year: '2025-26', scale2: 176, scale1: 288, foreignResident: 331, fortnightly: 754, monthly: 672 },
+    // Provisional - withholds using the 2025-26 tables until the 2026-27 coefficients are published
+    { year: '2026-27', scale2: 176, scale1: 288, foreignResident: 331, fortnightly: 754, monthly: 672 }
+  ])('$year', ({ year, scale2, scale1, foreignResident, fortnightly, monthly }) => {
+    it('withholds on weekly earnings with the tax-free threshold claimed (scale 2)', () => {
+      expect(withholdingFor(year, 'weekly', { annualSalary: weeklySalary })).toBe(scale2);
+    });
+
+    it('withholds on weekly earnings without the tax-free threshold (scale 1)', () => {
+      expect(withholdingFor(year, 'weekly', { annualSalary: weeklySalary, claimsTaxFreeThreshold: false })).toBe(scale1);
+    });
+
+    it('withholds on weekly earnings for a foreign resident (scale 3)', () => {
+      expect(withholdingFor(year, 'weekly', { annualSalary: weeklySalary, residencyStatus: 'foreignResident' })).toBe(foreignResident);
+    });
+
+    it('withholds 47% of weekly earnings ignoring cents when no TFN is provided (scale 4)', () => {
+      expect(withholdingFor(year, 'weekly', { annualSalary: weeklySalary, tfnProvided: false })).toBe(518);
+    });
+
+    it('doubles the weekly amount on fortnightly earnings', () => {
+      expect(withholdingFor(year, 'fortnightly', { annualSalary: fortnightlySalary })).toBe(fortnightly);
+    });
+
+    it('adds a cent to monthly earnings ending in 33 cents', () => {
+      expect(withholdingFor(year, 'monthly', { annualSalary: monthlySalary })).toBe(monthly);
+    });
+  });
+
+  it('withholds 15% from working holiday makers below $45,000 for the year', () => {
+    expect(withholdingFor('2025-26', 'weekly', { annualSalary: '52000', residencyStatus: 'workingHolidayMaker' })).toBe(150);
+  });
+});
+
+describe('Schedule 8 study loan withholding', () => {
+  it.each([
+    { year: '2023-24', component: 60 },
+    { year: '2024-25', component: 53 },
+    { year: '2025-26', component: 32 }
+  ])('withholds $component on weekly earnings of $1,500 in $year', ({ year, component }) => {
+    const results = computePayslip(payslipInput(year, 'weekly', { annualSalary: '78000', hasStudyLoan: true }), rulesFor(year));
+    expect(results.studyLoanWithholding).toBe(component);
+  });
+});
+
+describe('computePayslip', () => {
+  it('returns every pay run in the year, summed for YTD', () => {
+    const results = computePayslip(payslipInput('2025-26', 'fortnightly', { annualSalary: fortnightlySalary }), rulesFor('2025-26'));
+    const runsToDate = results.payRuns.slice(0, results.periodsToDate);
+    expect(results.ytd.withholding).toBe(runsToDate.reduce((sum, run) => sum + run.withholding, 0));
+    expect(results.periodsPerYear).toBe(results.payRuns.length);
+  });
+
+  it('pays leave taken only in the current pay run', () => {
+    const results = computePayslip(payslipInput('2025-26', 'fortnightly', { annualSalary: '100000', annualLeaveTaken: '38' }), rulesFor('2025-26'));
+    const annualLeave = results.earningsLines.find(line => line.type === 'annualLeave')!;
+    const leaveLoading = results.earningsLines.find(line => line.type === 'leaveLoading')!;
+    expect(results.periodsToDate).toBeGreaterThan(1);
+    expect(annualLeave.amount).toBeCloseTo(1923.08, 2);
+    expect(annualLeave.ytd).toBeCloseTo(annualLeave.amount, 2);
+    expect(leaveLoading.amount).toBeCloseTo(336.54, 2);
+    expect(leaveLoading.ytd).toBeCloseTo(leaveLoading.amount, 2);
+  });
+
+  it('only withholds for an extra pay the employee receives', () => {
+    // Tuesday pays give 53 weekly pays in 2025-26
+    const input = payslipInput('2025-26', 'weekly', {
+      annualSalary: weeklySalary,
+      payDate: '2025-10-14',
+      periodEndDate: '2025-10-14',
+      withholdExtraPay: true
+    });
+    const fullYear = computePayslip(input, rulesFor('2025-26'));
+    expect(fullYear.periodsPerYear).toBe(53);
+    expect(fullYear.hasExtraPay).toBe(true);
+    expect(fullYear.extraPayWithholding).toBeGreaterThan(0);
+
+    const newHire = computePayslip({ ...input, employmentStartDate: '2025-10-01' }, rulesFor('2025-26'));
+    expect(newHire.periodsPerYear).toBe(39);
+    expect(newHire.hasExtraPay).toBe(false);
+    expect(newHire.extraPayWithholding).toBe(0);
+  });
+
+  it('keeps month-end monthly periods on the last day of each month', () => {
+    const february = computePayslip(payslipInput('2025-26', 'monthly', {
+      annualSalary: '120000',
+      payDate: '2026-02-28',
+      periodEndDate: '2026-02-28',
+      employmentStartDate: '2026-02-01'
+    }), rulesFor('2025-26'));
+    expect(february.currentPeriod.start).toEqual(new Date(2026, 1, 1));
+    expect(february.grossPay).toBeCloseTo(10000, 2);
+    expect(february.payPeriods.slice(-4).map(period => period.end)).toEqual([
+      new Date(2026, 2, 31),
+      new Date(2026, 3, 30),
+      new Date(2026, 4, 31),
+      new Date(2026, 5, 30)
+    ]);
+
+    const september = computePayslip(payslipInput('2025-26', 'monthly', {
+      annualSalary: '120000',
+      payDate: '2025-09-30',
+      periodEndDate: '2025-09-30'
+    }), rulesFor('2025-26'));
+    expect(september.currentPeriod.start).toEqual(new Date(2025, 8, 1));
+    expect(september.payPeriods.map(period => period.end.getDate())).toEqual([31, 31, 30, 31, 30, 31, 31, 28, 31, 30, 31, 30]);
+  });
+
+  it('throws field errors for invalid inputs', () => {
+    const input = payslipInput('2025-26', 'fortnightly', { annualSalary: '' });
+    expect(() => computePayslip(input, rulesFor('2025-26'))).toThrow(PayslipInputError);
+    try {
+      computePayslip(input, rulesFor('2025-26'));
+    } catch (error) {
+      expect((error as PayslipInputError).errors.annualSalary).toBe('Enter the annual salary');
+    }
+  });
+
+  it('reports dates that aren\'t YYYY-MM-DD as field errors', () => {
+    const input = payslipInput('2025-26', 'fortnightly', {
+      annualSalary: fortnightlySalary,
+      payDate: 'abc',
+      periodEndDate: '13/07/2025',
+      employmentStartDate: '2025-02-30'
+    });
+    expect(() => computePayslip(input, rulesFor('2025-26'))).toThrow(PayslipInputError);
+    expect(validateInputs(input, rulesFor('2025-26'))).toEqual({
+      payDate: 'Enter the pay date as YYYY-MM-DD',
+      periodEndDate: 'Enter the period end date as YYYY-MM-DD',
+      employmentStartDate: 'Enter the employment start date as YYYY-MM-DD'
+    });
+  });
+
+  it('reports zero and negative hours, FTE and amounts as field errors', () => {
+    const input = payslipInput('2025-26', 'fortnightly', {
+      annualSalary: fortnightlySalary,
+      employmentType: 'partTime',
+      fte: '0',
+      fullTimeHours: '-38',
+      annualLeaveTaken: '-8',
+      preTaxDeductions: [{ id: 'sacrifice', type: 'superSacrifice', description: '', amountType: 'fixed', amount: '-100' }],
+      postTaxDeductions: [{ id: 'union', type: 'unionFees', description: '', amountType: 'fixed', amount: '-25', taxDeductible: true }]
+    });
+    expect(validateInputs(input, rulesFor('2025-26'))).toEqual({
+      fte: 'Enter an FTE above 0 and up to 1.0',
+      fullTimeHours: 'Enter the full-time hours a week',
+      annualLeaveTaken: 'Enter the hours of annual leave taken, or leave it blank',
+      preTaxDeductions: 'Enter an amount of 0 or more for pre-tax deduction 1',
+      postTaxDeductions: 'Enter an amount of 0 or more for post-tax deduction 1'
+    });
+    expect(validateInputs({ ...input, fte: '-1', fullTimeHours: '', annualLeaveTaken: '', preTaxDeductions: [], postTaxDeductions: [] }, rulesFor('2025-26')))
+      .toEqual({ fte: 'Enter an FTE above 0 and up to 1.0' });
+  });
+
+  it('reports salary change dates that aren\'t YYYY-MM-DD', () => {
+    const input = payslipInput('2025-26', 'fortnightly', {
+      annualSalary: fortnightlySalary,
+      salaryChanges: [
+        { id: 'raise', effectiveDate: '2025-09-01', annualSalary: '95000', fte: '' },
+        { id: 'typo', effectiveDate: 'abc', annualSalary: '100000', fte: '' }
+      ]
+    });
+    expect(validateInputs(input, rulesFor('2025-26'))).toEqual({
+      salaryChanges: 'Enter the date of salary change 2 as YYYY-MM-DD'
+    });
+    expect(() => computePayslip(input, rulesFor('2025-26'))).toThrow(PayslipInputError);
+  });
+});
+
+describe('Schedule 5 one-off payments', () => {
+  const rules = rulesFor('2025-26');
+  const oneOffWithholdingFor = (type: string, amount: string, periods: string): number => computePayslip(payslipInput('2025-26', 'weekly', {
+    annualSalary: weeklySalary,
+    oneOffPayments: [{ id: type, type, description: '', amount, periods, ote: true }]
+  }), rules).oneOffWithholding;
+
+  it('withholds a bonus at the marginal rate on top of normal weekly earnings', () => {
+    // $337 on $1,603.45 less $176 on $1,103.45
+    expect(oneOffWithholdingFor('bonus', '500', '1')).toBe(161);
+  });
+
+  it('spreads current-year back pay over the periods it covers', () => {
+    // $208 on $1,203.45 less $176, for each of 13 weeks
+    expect(oneOffWithholdingFor('backPay', '1300', '13')).toBe(416);
+  });
+
+  it('withholds prior-year back pay on a year of normal earnings', () => {
+    // Tax and Medicare levy on $59,379.40 less the same on $57,379.40
+    expect(oneOffWithholdingFor('priorYearBackPay', '2000', '1')).toBe(640);
+  });
+});
+
+describe('Schedule 7 and 11 final pay', () => {
+  const rules = rulesFor('2025-26');
+  const finalPayFor = (overrides: Partial<InputState>) => computePayslip(payslipInput('2025-26', 'fortnightly', {
+    annualSalary: fortnightlySalary,
+    calculatorMode: 'final',
+    employmentEndDate: '2025-10-16',
+    dateOfBirth: '1980-05-01',
+    ...overrides
+  }), rules).finalPay!;
+  const lineFor = (finalPay: ReturnType<typeof finalPayFor>, id: string) => finalPay.lines.find(line => line.id === id)!;
+
+  it('withholds unused leave at 32% on a genuine redundancy', () => {
+    const leave = lineFor(finalPayFor({ terminationReason: 'genuineRedundancy', openingAnnualLeave: '76' }), 'annualLeave');
+    expect(leave.amount).toBeCloseTo(3727.81, 2);
+    expect(leave.withholding).toBe(1193);
+  });
+
+  it('withholds unused leave at marginal rates on resignation', () => {
+    // Spread over 52 weeks - $400 on $1,802.46 less $377 on $1,730.77, for each week
+    const leave = lineFor(finalPayFor({ openingAnnualLeave: '76' }), 'annualLeave');
+    expect(leave.amount).toBeCloseTo(3727.81, 2);
+    expect(leave.withholding).toBe(1196);
+  });
+
+  it('withholds a genuine redundancy over the tax-free limit as an excluded ETP', () => {
+    // $12,837 plus $6,420 for each of 10 completed years is tax-free; the rest is withheld at 32%
+    const finalPay = finalPayFor({ terminationReason: 'genuineRedundancy', redundancyPayment: '100000' });
+    expect(finalPay.redundancyTaxFreeLimit).toBe(77037);
+    expect(lineFor(finalPay, 'redundancy')).toMatchObject({ amount: 100000, taxFree: 77037, withholding: 7348 });
+  });
+
+  it('withholds a non-excluded ETP at 32% within the whole-of-income cap', () => {
+    const finalPay = finalPayFor({ otherTerminationPayment: '50000' });
+    expect(lineFor(finalPay, 'otherTerminationPayment')).toMatchObject({ amount: 50000, taxFree: 0, withholding: 16000 });
+  });
+});
+
+describe('net to gross', () => {
+  const rules = rulesFor('2025-26');
+  const reverse = (overrides: Partial<InputState>) => computePayslip(
+    payslipInput('2025-26', 'fortnightly', { calculatorMode: 'reverse', withholdExtraPay: true, ...overrides }),
+    rules
+  );
+
+  it('finds the lowest rate that reaches the forward calculation\'s pay', () => {
+    const cases: Array<Partial<InputState>> = [
+      { annualSalary: '90000' },
+      { annualSalary: '45000', hasStudyLoan: true },
+      { annualSalary: '185000' },
+      { employmentType: 'casual', casualHourlyRate: '38.50', casualHours: '60' }
+    ];
+    cases.forEach(overrides => {
+      (['net', 'takeHome'] as const).forEach(measure => {
+        const forward = computePayslip(payslipInput('2025-26', 'fortnightly', { withholdExtraPay: true, ...overrides }), rules);
+        const target = measure === 'net' ? forward.netIncome : forward.takeHomePay;
+        const solved = reverse({ ...overrides, targetMeasure: measure, targetPay: String(target) });
+        const field = overrides.employmentType === 'casual' ? 'casualHourlyRate' : 'annualSalary';
+        const solution = solved.netToGross!;
+        expect(solution.rate).toBeLessThanOrEqual(parseFloat(overrides[field] as string));
+        expect(solution.achieved).toBeGreaterThanOrEqual(target);
+
+        const below = computePayslip(payslipInput('2025-26', 'fortnightly', {
+          withholdExtraPay: true,
+          ...overrides,
+          [field]: (solution.rate - 0.01).toFixed(2)
+        }), rules);
+        expect(measure === 'net' ? below.netIncome : below.takeHomePay).toBeLessThan(target);
+      });
+    });
+  });
+
+  it('reports a target that no salary reaches as a field error', () => {
+    const input = payslipInput('2025-26', 'fortnightly', {
+      calculatorMode: 'reverse',
+      targetMeasure: 'takeHome',
+      targetPay: '3000',
+      postTaxDeductions: [{ id: 'all', type: 'other', description: '', amountType: 'percentage', amount: '100', taxDeductible: false }]
+    });
+    expect(() => computePayslip(input, rules)).toThrow(PayslipInputError);
+    expect(calculatePayslipFromJson({ ...input })).toEqual({
+      ok: false,
+      errors: { targetPay: 'No salary reaches this pay - check the hours and deductions' }
+    });
+  });
+
+  it('needs hours to find a casual hourly rate', () => {
+    const input = payslipInput('2025-26', 'fortnightly', {
+      calculatorMode: 'reverse',
+      employmentType: 'casual',
+      targetPay: '3000'
+    });
+    expect(validateInputs(input, rules)).toEqual({ casualHours: 'Enter the hours worked this period to find the hourly rate' });
+  });
+
+  it('doesn\'t stop on a later stretch that also reaches the target', () => {
+    const solved = reverse({ targetMeasure: 'net', targetPay: '2707.54' });
+    expect(solved.netToGross!.rate).toBeGreaterThanOrEqual(90000);
+    expect(solved.netToGross!.rate).toBeLessThan(90001);
+  });
+});
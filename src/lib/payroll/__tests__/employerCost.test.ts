@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateEmployerCost,
+  calculatePayrollTax,
+  computePayslip,
+  rulesPacks,
+  validateInputs
+} from '..';
+import { fortnightlyInput, rulesFor } from './fixtures';
+
+const rules = rulesFor('2025-26');
+
+const input = fortnightlyInput({
+  workersCompRate: '1.5'
+});
+
+describe('calculatePayrollTax', () => {
+  it('charges nothing up to the threshold', () => {
+    expect(calculatePayrollTax(rules.payrollTax.NSW, 1200000)).toBe(0);
+    expect(calculatePayrollTax(rules.payrollTax.NSW, 2000000)).toBeCloseTo(0.0545 * 800000, 2);
+  });
+
+  it('phases out deductions', () => {
+    // Halfway through the WA phase-out the deduction is $500,000
+    expect(calculatePayrollTax(rules.payrollTax.WA, 4250000)).toBeCloseTo(0.055 * 3750000, 2);
+    expect(calculatePayrollTax(rules.payrollTax.WA, 8000000)).toBeCloseTo(0.055 * 8000000, 2);
+    expect(calculatePayrollTax(rules.payrollTax.QLD, 7000000)).toBeCloseTo(0.0495 * 7000000, 2);
+    expect(calculatePayrollTax(rules.payrollTax.VIC, 5000000)).toBeCloseTo(0.0485 * 5000000, 2);
+  });
+
+  it('applies marginal rates', () => {
+    expect(calculatePayrollTax(rules.payrollTax.TAS, 3000000)).toBeCloseTo(0.04 * 750000 + 0.061 * 1000000, 2);
+    expect(calculatePayrollTax(rules.payrollTax.SA, 1700000)).toBeCloseTo(0.0495 * 1100000, 2);
+  });
+
+  it('has rules for every state in every pack', () => {
+    rulesPacks.forEach(pack => expect(Object.keys(pack.payrollTax)).toHaveLength(8));
+    expect(rulesFor('2023-24').payrollTax.VIC.threshold).toBe(700000);
+  });
+});
+
+describe('calculateEmployerCost', () => {
+  const results = computePayslip(input, rules);
+
+  it('adds super, workers compensation and leave provisions to gross pay', () => {
+    const cost = calculateEmployerCost(input, results);
+    const leaveRate = results.hourlyRate;
+    expect(cost.period.payrollTax).toBe(0);
+    expect(cost.period.superGuarantee).toBe(results.superGuarantee);
+    expect(cost.period.workersCompensation).toBeCloseTo(results.grossPay * 0.015, 6);
+    expect(cost.leaveLoadingProvision).toBeCloseTo(results.leave.annual.accrued * leaveRate * 0.175, 6);
+    expect(cost.longServiceLeaveProvision).toBeCloseTo(results.leave.longService.accrued * leaveRate, 6);
+    expect(cost.period.total).toBeCloseTo(
+      results.grossPay + results.superGuarantee + cost.period.workersCompensation + cost.leaveLoadingProvision + cost.longServiceLeaveProvision,
+      6
+    );
+    expect(cost.annual.total).toBeCloseTo(cost.period.total * 26, 6);
+  });
+
+  it('annualises over a full year of pays for a new hire', () => {
+    const newHire = { ...input, employmentStartDate: '2025-10-01' };
+    const newHireResults = computePayslip(newHire, rules);
+    const cost = calculateEmployerCost(newHire, newHireResults);
+    expect(newHireResults.periodsPerYear).toBeLessThan(26);
+    expect(cost.periodsPerYear).toBe(26);
+    expect(cost.annual.grossPay).toBeCloseTo(newHireResults.grossPay * 26, 6);
+  });
+
+  it('charges payroll tax on wages and super once the employer is over the threshold', () => {
+    const cost = calculateEmployerCost({ ...input, employerOtherWages: '5000000' }, results);
+    expect(cost.payrollTaxWages).toBeCloseTo((results.grossPay + results.superGuarantee) * 26, 6);
+    expect(cost.annual.payrollTax).toBeCloseTo(cost.payrollTaxWages * 0.0545, 6);
+    expect(cost.period.payrollTax).toBeCloseTo(cost.annual.payrollTax / 26, 6);
+  });
+
+  it('uses the chosen state', () => {
+    const cost = calculateEmployerCost({ ...input, payrollTaxState: 'ACT', employerOtherWages: '3000000' }, results);
+    expect(cost.annual.payrollTax).toBeCloseTo(cost.payrollTaxWages * 0.0685, 6);
+  });
+
+  it('validates the rates', () => {
+    expect(validateInputs({ ...input, workersCompRate: '120' }, rules).workersCompRate).toBeDefined();
+    expect(validateInputs({ ...input, employerOtherWages: '-5' }, rules).employerOtherWages).toBeDefined();
+  });
+});
@@ -0,0 +1,23 @@
+import { defaultInputState, getRulesPack } from '..';
+import type { InputState, TaxRulesPack } from '..';
+
+export const rulesFor = (year: string): TaxRulesPack => {
+  const rules = getRulesPack(year);
+  if (!rules) {
+    throw new Error(`No rules pack for ${year}`);
+  }
+  return rules;
+};
+
+// A $90,000 salary paid fortnightly on 16 October 2025, plus whatever each test needs. Extra pay
+// withholding is off so figures match the published tax tables.
+export const fortnightlyInput = (overrides: Partial<InputState> = {}): InputState => ({
+  ...defaultInputState,
+  payFrequency: 'fortnightly',
+  payDate: '2025-10-16',
+  periodEndDate: '2025-10-14',
+  employmentStartDate: '2015-01-05',
+  annualSalary: '90000',
+  withholdExtraPay: false,
+  ...overrides
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { isValidAbn, isValidBsb, isValidTfn } from '..';
+
+describe('isValidAbn', () => {
+  it('checks the ABN check digits', () => {
+    expect(isValidAbn('51 824 753 556')).toBe(true);
+    expect(isValidAbn('51 824 753 557')).toBe(false);
+    expect(isValidAbn('5182475355')).toBe(false);
+  });
+});
+
+describe('isValidTfn', () => {
+  it('checks the TFN check digits', () => {
+    expect(isValidTfn('123 456 782')).toBe(true);
+    expect(isValidTfn('123 456 789')).toBe(false);
+  });
+});
+
+describe('isValidBsb', () => {
+  it('accepts six digits with or without the hyphen', () => {
+    expect(isValidBsb('062-000')).toBe(true);
+    expect(isValidBsb('062000')).toBe(true);
+    expect(isValidBsb('62-000')).toBe(false);
+    expect(isValidBsb('000-000')).toBe(false);
+  });
+});
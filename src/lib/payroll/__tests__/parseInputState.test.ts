@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePayslipFromJson, defaultInputState, parseInputState } from '..';
+
+describe('parseInputState', () => {
+  it('fills missing fields with defaults and keeps numbers as text', () => {
+    const { input, errors } = parseInputState({ annualSalary: 90000, payFrequency: 'weekly', unknownField: true });
+    expect(errors).toEqual({});
+    expect(input).toEqual({ ...defaultInputState, annualSalary: '90000', payFrequency: 'weekly' });
+  });
+
+  it('reports wrongly typed fields and unknown options', () => {
+    const { errors } = parseInputState({
+      payFrequency: 'daily',
+      hasPrivateHealthInsurance: 'yes',
+      preTaxDeductions: [{ type: 'superSacrifice', amount: {} }]
+    });
+    expect(errors.payFrequency).toMatch(/^payFrequency must be one of weekly/);
+    expect(errors.hasPrivateHealthInsurance).toBe('hasPrivateHealthInsurance must be true or false');
+    expect(errors.preTaxDeductions).toBe('preTaxDeductions row 1 amount must be a string or number');
+  });
+
+  it('gives list rows ids and defaults', () => {
+    const { input } = parseInputState({ oneOffPayments: [{ amount: 5000 }] });
+    expect(input.oneOffPayments).toEqual([
+      { id: 'oneOffPayments-1', type: 'bonus', description: '', amount: '5000', periods: '1', ote: true }
+    ]);
+  });
+});
+
+describe('calculatePayslipFromJson', () => {
+  it('calculates with the rules pack for the pay date', () => {
+    const outcome = calculatePayslipFromJson({
+      annualSalary: '57379.40',
+      payFrequency: 'weekly',
+      payDate: '2025-10-16',
+      periodEndDate: '2025-10-16',
+      employmentStartDate: '2015-01-05',
+      withholdExtraPay: false
+    });
+    expect(outcome.ok && outcome.results.rules.year).toBe('2025-26');
+    expect(outcome.ok && outcome.results.withholding).toBe(176);
+  });
+
+  it('returns validation errors instead of throwing', () => {
+    const outcome = calculatePayslipFromJson({ payDate: '2025-10-16', periodEndDate: '2025-10-16' });
+    expect(outcome.ok).toBe(false);
+    expect(!outcome.ok && outcome.errors.annualSalary).toBe('Enter the annual salary');
+  });
+});
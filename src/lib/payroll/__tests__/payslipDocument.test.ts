@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { buildPayslipDocument, computePayslip, renderPayslipPdf } from '..';
+import { fortnightlyInput, rulesFor } from './fixtures';
+
+const input = fortnightlyInput({
+  employerName: 'Acme Pty Ltd',
+  employerAbn: '51824753556',
+  employeeName: 'Alex Citizen',
+  superFundName: 'Example Super',
+  preTaxDeductions: [{ id: 'sacrifice', type: 'superSacrifice', description: '', amountType: 'fixed', amount: '100' }],
+  postTaxDeductions: [{ id: 'union', type: 'unionFees', description: '', amountType: 'fixed', amount: '25', taxDeductible: true }]
+});
+
+const rules = rulesFor('2025-26');
+
+describe('buildPayslipDocument', () => {
+  const document = buildPayslipDocument(computePayslip(input, rules), input);
+
+  it('includes the employer, employee, pay period and super fund', () => {
+    expect(document.employerAbn).toBe('51 824 753 556');
+    expect(document.employeeName).toBe('Alex Citizen');
+    expect(document.periodEnd).toEqual(new Date(2025, 9, 14));
+    expect(document.payDate).toEqual(new Date(2025, 9, 16));
+    expect(document.superFundName).toBe('Example Super');
+    expect(document.annualSalary).toBe(90000);
+  });
+
+  it('lists every deduction so gross less deductions is the net pay', () => {
+    expect(document.deductions.map(line => line.label)).toEqual(['Salary sacrifice to super', 'PAYG withholding', 'Union fees']);
+    expect(document.grossPay - document.totalDeductions).toBeCloseTo(document.netPay, 2);
+  });
+});
+
+describe('renderPayslipPdf', () => {
+  it('writes a PDF with a cross-reference table that points at each object', () => {
+    const pdf = new TextDecoder().decode(renderPayslipPdf(buildPayslipDocument(computePayslip(input, rules), input)));
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Alex Citizen) Tj');
+    expect(pdf).toContain('(ABN 51 824 753 556) Tj');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    const entries = pdf.slice(xrefOffset).split('\n').slice(3).filter(line => line.endsWith(' n '));
+    entries.forEach((entry, index) => {
+      expect(pdf.slice(Number(entry.slice(0, 10))).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
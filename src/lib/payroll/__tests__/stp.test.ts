@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { buildStpPayload, computePayslip, validateStpPayload } from '..';
+import type { InputState } from '..';
+import { fortnightlyInput, rulesFor } from './fixtures';
+
+const rules = rulesFor('2025-26');
+
+const input = fortnightlyInput({
+  employerName: 'Acme Pty Ltd',
+  employerAbn: '51 824 753 556',
+  employeeName: 'Alex Jordan Citizen',
+  employeeId: 'E001',
+  employeeTfn: '123 456 782',
+  hasStudyLoan: true,
+  oneOffPayments: [{ id: 'bonus', type: 'bonus', description: '', amount: '2000', periods: '1', ote: true }],
+  preTaxDeductions: [{ id: 'sacrifice', type: 'superSacrifice', description: '', amountType: 'fixed', amount: '100' }],
+  postTaxDeductions: [{ id: 'union', type: 'unionFees', description: '', amountType: 'fixed', amount: '25', taxDeductible: true }]
+});
+
+const payloadFor = (payslipInput: InputState) => buildStpPayload(
+  [{ input: payslipInput, results: computePayslip(payslipInput, rules) }],
+  new Date('2025-10-15T00:00:00Z')
+);
+
+describe('buildStpPayload', () => {
+  const results = computePayslip(input, rules);
+  const payload = payloadFor(input);
+  const [payee] = payload.payees;
+
+  it('passes schema validation', () => {
+    expect(validateStpPayload(payload)).toEqual([]);
+  });
+
+  it('reports the payer, payee and tax treatment', () => {
+    expect(payload.payer.abn).toBe('51824753556');
+    expect(payload.payEvent).toMatchObject({ paymentDate: '2025-10-16', financialYear: '2025-26', payeeCount: 1 });
+    expect(payee.name).toEqual({ familyName: 'Citizen', firstName: 'Alex Jordan' });
+    expect(payee.employment.taxTreatmentCode).toBe('RTSXXX');
+  });
+
+  it('disaggregates year-to-date gross and withholding', () => {
+    expect(payee.remuneration.bonusesAndCommissions).toBe(2000);
+    expect(payee.remuneration.gross + payee.remuneration.bonusesAndCommissions).toBeCloseTo(results.ytd.gross, 2);
+    expect(payee.remuneration.paygWithholding).toBe(results.ytd.withholding + results.ytd.studyLoanWithholding);
+    expect(payee.remuneration.salarySacrifice).toEqual([{ typeCode: 'S', amount: 100 * results.periodsToDate }]);
+    expect(payee.deductions).toEqual([{ typeCode: 'F', amount: 25 * results.periodsToDate }]);
+    expect(payee.super.reportableEmployerSuper).toBe(100 * results.periodsToDate);
+  });
+
+  it('reports termination payments as lump sums and ETPs', () => {
+    const finalInput: InputState = {
+      ...input,
+      calculatorMode: 'final',
+      terminationReason: 'genuineRedundancy',
+      employmentEndDate: '2025-10-14',
+      dateOfBirth: '1980-05-01',
+      openingAnnualLeave: '76',
+      redundancyPayment: '100000'
+    };
+    const [finalPayee] = payloadFor(finalInput).payees;
+    expect(validateStpPayload(payloadFor(finalInput))).toEqual([]);
+    expect(finalPayee.employment).toMatchObject({ cessationDate: '2025-10-14', cessationTypeCode: 'R' });
+    expect(finalPayee.remuneration.lumpSums.map(lumpSum => lumpSum.typeCode)).toEqual(['A', 'D']);
+    expect(finalPayee.etps).toHaveLength(1);
+    expect(finalPayee.etps[0].typeCode).toBe('R');
+  });
+
+  it('reports a fully tax-free redundancy as lump sum D without an ETP', () => {
+    const finalInput: InputState = {
+      ...input,
+      calculatorMode: 'final',
+      terminationReason: 'genuineRedundancy',
+      employmentEndDate: '2025-10-14',
+      dateOfBirth: '1980-05-01',
+      redundancyPayment: '30000'
+    };
+    const [finalPayee] = payloadFor(finalInput).payees;
+    expect(validateStpPayload(payloadFor(finalInput))).toEqual([]);
+    expect(finalPayee.remuneration.lumpSums).toContainEqual({ typeCode: 'D', amount: 30000 });
+    expect(finalPayee.etps).toEqual([]);
+  });
+
+  it('reports missing details as schema errors', () => {
+    const errors = validateStpPayload(payloadFor({ ...input, employeeId: '', employeeTfn: '' }));
+    expect(errors).toEqual(['$.payees[0].payrollId must have at least 1 character', '$.payees[0].tfn must match ^\\d{9}$']);
+  });
+});
@@ -0,0 +1,177 @@
+import type { AbaFile, AbaFileOptions, AbaPayment, AbaPaymentAmount, BankAccount, CalculationResults, InputState } from './types';
+import { formatBsb, isValidAccountNumber, isValidBsb } from './identifiers';
+import { formatIsoDate } from './schedule';
+import { toPrintableAscii } from './text';
+
+// Direct entry files in the Cemtex (ABA) format banks accept for bulk payments. Every record is a
+// fixed 120 characters - a descriptive record (type 0), a detail record (type 1) per transaction
+// and a file total record (type 7).
+
+// Transaction codes - 53 is a pay credit, 13 an externally initiated debit
+const payCreditCode = '53';
+const debitCode = '13';
+
+// Largest amount the 10-digit cents fields can hold
+const maxCents = 9999999999;
+
+export const defaultAbaFileOptions: AbaFileOptions = { amount: 'takeHome', balanced: false, description: 'PAYROLL' };
+
+// Amount paid into the employee's account, including a final pay's termination payments
+export const getAbaPaymentAmount = (results: CalculationResults, amount: AbaPaymentAmount): number => {
+  const pay = amount === 'net' ? results.netIncome : results.takeHomePay;
+  return pay + (results.finalPay?.net || 0);
+};
+
+const bankAccountOf = (bsb: string, accountNumber: string, accountName: string): BankAccount => ({
+  bsb: bsb.trim(),
+  accountNumber: accountNumber.trim(),
+  accountName: accountName.trim()
+});
+
+// Pays each employee from the first payslip's employer account, processed on its pay date
+export const buildAbaFile = (
+  payslips: Array<{ input: InputState; results: CalculationResults }>,
+  options: AbaFileOptions = defaultAbaFileOptions
+): AbaFile => {
+  const [first] = payslips;
+  const payDate = first.results.currentPeriod.payDate;
+  return {
+    debitAccount: bankAccountOf(first.input.employerBsb, first.input.employerAccountNumber, first.input.employerAccountName),
+    bankCode: first.input.employerBankCode.trim().toUpperCase(),
+    apcaId: first.input.employerApcaId.trim(),
+    userName: first.input.employerName.trim(),
+    description: options.description.trim(),
+    processingDate: payDate,
+    payments: payslips.map(({ input, results }): AbaPayment => ({
+      account: bankAccountOf(input.bankBsb, input.bankAccountNumber, input.bankAccountName),
+      amount: getAbaPaymentAmount(results, options.amount),
+      reference: `Pay ${formatIsoDate(results.currentPeriod.payDate)}`
+    })),
+    balanced: options.balanced
+  };
+};
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const validateAccount = (account: BankAccount, label: string): string[] => {
+  const errors: string[] = [];
+  if (!isValidBsb(account.bsb)) {
+    errors.push(`${label} needs a 6-digit BSB`);
+  }
+  if (!isValidAccountNumber(account.accountNumber)) {
+    errors.push(`${label} needs an account number of up to 9 digits`);
+  }
+  if (!account.accountName) {
+    errors.push(`${label} needs an account name`);
+  }
+  return errors;
+};
+
+// Returns a message for each thing the bank would reject, or an empty list when the file can be made
+export const validateAbaFile = (file: AbaFile): string[] => {
+  const errors = validateAccount(file.debitAccount, 'The employer debit account');
+  if (!/^[A-Z]{3}$/.test(file.bankCode)) {
+    errors.push('Enter the three-letter code of the employer\'s bank, like CBA or WBC');
+  }
+  if (!/^\d{6}$/.test(file.apcaId)) {
+    errors.push('Enter the 6-digit APCA user ID issued by the employer\'s bank');
+  }
+  if (!file.userName) {
+    errors.push('Enter the employer name');
+  }
+  if (file.payments.length === 0) {
+    errors.push('There are no payments to make');
+  }
+
+  file.payments.forEach((payment, index) => {
+    const label = `Payment ${index + 1}${payment.account.accountName ? ` to ${payment.account.accountName}` : ''}`;
+    errors.push(...validateAccount(payment.account, label));
+    const cents = toCents(payment.amount);
+    if (cents <= 0) {
+      errors.push(`${label} must be more than $0.00`);
+    } else if (cents > maxCents) {
+      errors.push(`${label} is more than the file can hold`);
+    }
+  });
+
+  const total = file.payments.reduce((sum, payment) => sum + Math.max(toCents(payment.amount), 0), 0);
+  if (total > maxCents) {
+    errors.push('The payments total more than the file can hold');
+  }
+  return errors;
+};
+
+// Text fields are printable ASCII, left aligned and padded or cut to their width
+const text = (value: string, width: number): string => {
+  return toPrintableAscii(value, '').slice(0, width).padEnd(width);
+};
+
+const zeroFilled = (value: number, width: number): string => String(value).padStart(width, '0');
+
+const formatDate = (date: Date): string => {
+  return [date.getDate(), date.getMonth() + 1, date.getFullYear() % 100].map(part => zeroFilled(part, 2)).join('');
+};
+
+const detailRecord = (
+  file: AbaFile,
+  account: BankAccount,
+  transactionCode: string,
+  cents: number,
+  reference: string
+): string => {
+  return [
+    '1',
+    formatBsb(account.bsb),
+    account.accountNumber.slice(0, 9).padStart(9),
+    ' ',
+    transactionCode,
+    zeroFilled(cents, 10),
+    text(account.accountName, 32),
+    text(reference, 18),
+    formatBsb(file.debitAccount.bsb),
+    file.debitAccount.accountNumber.slice(0, 9).padStart(9),
+    text(file.userName, 16),
+    zeroFilled(0, 8)
+  ].join('');
+};
+
+// The file's text, with CRLF line endings. Check it with validateAbaFile first.
+export const formatAbaFile = (file: AbaFile): string => {
+  const descriptive = [
+    '0',
+    ' '.repeat(17),
+    '01',
+    text(file.bankCode, 3),
+    ' '.repeat(7),
+    text(file.userName, 26),
+    file.apcaId.padStart(6, '0'),
+    text(file.description, 12),
+    formatDate(file.processingDate),
+    ' '.repeat(40)
+  ].join('');
+
+  const credits = file.payments.map(payment => ({ payment, cents: toCents(payment.amount) }));
+  const creditTotal = credits.reduce((sum, credit) => sum + credit.cents, 0);
+  const details = credits.map(({ payment, cents }) =>
+    detailRecord(file, payment.account, payCreditCode, cents, payment.reference)
+  );
+  // A balanced file takes the total back out of the employer's account, so the net total is zero
+  const debitTotal = file.balanced ? creditTotal : 0;
+  if (file.balanced) {
+    details.push(detailRecord(file, file.debitAccount, debitCode, debitTotal, file.description));
+  }
+
+  const fileTotal = [
+    '7',
+    '999-999',
+    ' '.repeat(12),
+    zeroFilled(Math.abs(creditTotal - debitTotal), 10),
+    zeroFilled(creditTotal, 10),
+    zeroFilled(debitTotal, 10),
+    ' '.repeat(24),
+    zeroFilled(details.length, 6),
+    ' '.repeat(40)
+  ].join('');
+
+  return [descriptive, ...details, fileTotal].map(record => `${record}\r\n`).join('');
+};
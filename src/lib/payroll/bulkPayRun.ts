@@ -0,0 +1,162 @@
+import type { BulkPayRun, BulkPayRunRow, BulkPayRunTotals, CalculationResults, InputState } from './types';
+import { formatCsv, parseCsv } from './csv';
+import { calculatePayslipFromJson, parseInputState } from './input';
+import { formatIsoDate } from './schedule';
+import { defaultInputState } from './payslip';
+
+type BulkPayRunColumn = keyof InputState | 'name' | 'employeeId';
+
+// Headings are matched ignoring case, spaces and punctuation
+const normaliseHeading = (heading: string): string => heading.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Columns holding lists of rows can't be given in a single cell
+const listFields = new Set<string>(['salaryChanges', 'earningsLines', 'oneOffPayments', 'preTaxDeductions', 'postTaxDeductions']);
+
+// Any InputState field can be a column, under its own name or one of these shorter headings
+const columnHeadings: Record<string, BulkPayRunColumn> = {
+  ...Object.fromEntries(Object.keys(defaultInputState)
+    .filter(field => !listFields.has(field))
+    .map(field => [normaliseHeading(field), field as keyof InputState])),
+  name: 'name',
+  employeename: 'name',
+  id: 'employeeId',
+  employeeid: 'employeeId',
+  salary: 'annualSalary',
+  frequency: 'payFrequency',
+  startdate: 'employmentStartDate',
+  enddate: 'employmentEndDate',
+  privatehealth: 'hasPrivateHealthInsurance',
+  privatehealthinsurance: 'hasPrivateHealthInsurance',
+  bsb: 'bankBsb',
+  accountnumber: 'bankAccountNumber',
+  accountname: 'bankAccountName'
+};
+
+const booleanValues: Record<string, boolean> = { true: true, yes: true, y: true, '1': true, false: false, no: false, n: false, '0': false };
+
+// Yes/no cells become booleans. Anything else is left as text so parseInputState reports it.
+const readCell = (field: keyof InputState, cell: string): string | boolean => {
+  if (typeof defaultInputState[field] === 'boolean') {
+    return booleanValues[cell.toLowerCase()] ?? cell;
+  }
+  return cell;
+};
+
+// PAYG withheld on the payslip, including one-off payments and the study loan component
+export const totalWithholding = (results: CalculationResults): number => {
+  return results.withholding + results.oneOffWithholding + results.studyLoanWithholding;
+};
+
+const sumRows = (rows: BulkPayRunRow[], amount: (results: CalculationResults) => number): number => {
+  return rows.reduce((sum, row) => sum + (row.results ? amount(row.results) : 0), 0);
+};
+
+// Calculates a payslip for each employee line in a CSV file. `shared` holds the inputs for the
+// whole run, such as the pay date and period end date; non-blank cells override them.
+export const calculateBulkPayRun = (csv: string, shared: InputState): BulkPayRun => {
+  const [headings = [], ...lines] = parseCsv(csv);
+  const emptyRun: BulkPayRun = {
+    rows: [],
+    totals: { grossPay: 0, withholding: 0, superannuation: 0, netIncome: 0, takeHomePay: 0 },
+    ignoredColumns: [],
+    errors: []
+  };
+
+  const columns = headings.map(heading => columnHeadings[normaliseHeading(heading)]);
+  const ignoredColumns = headings.filter((heading, index) => !columns[index] && heading.trim() !== '');
+  if (!columns.some(Boolean)) {
+    return { ...emptyRun, errors: ['The first line must be column headings, such as name, employeeId, annualSalary and fte'] };
+  }
+
+  const seenIds = new Map<string, number>();
+  const rows: BulkPayRunRow[] = [];
+  lines.forEach((cells, index) => {
+    const line = index + 2;
+    if (cells.every(cell => cell.trim() === '')) {
+      return;
+    }
+
+    const values: Record<string, unknown> = { ...shared };
+    const row: BulkPayRunRow = { line, name: '', employeeId: '', input: null, results: null, errors: [] };
+    cells.forEach((rawCell, column) => {
+      const field = columns[column];
+      const cell = rawCell.trim();
+      if (field === 'name' || field === 'employeeId') {
+        row[field] = cell;
+        values[field === 'name' ? 'employeeName' : 'employeeId'] = cell;
+      } else if (field && cell !== '') {
+        values[field] = readCell(field, cell);
+      }
+    });
+
+    if (cells.length > headings.length) {
+      row.errors.push(`Line has ${cells.length} cells but there are ${headings.length} columns`);
+    }
+    if (row.employeeId) {
+      const firstLine = seenIds.get(row.employeeId);
+      if (firstLine) {
+        row.errors.push(`Employee ID ${row.employeeId} is already used on line ${firstLine}`);
+      } else {
+        seenIds.set(row.employeeId, line);
+      }
+    }
+
+    // A line that can't be calculated is reported against that line rather than stopping the run
+    try {
+      const outcome = calculatePayslipFromJson(values);
+      if (!outcome.ok) {
+        row.errors.push(...Object.values(outcome.errors));
+      } else if (row.errors.length === 0) {
+        row.input = parseInputState(values).input;
+        row.results = outcome.results;
+      }
+    } catch (error) {
+      row.errors.push(error instanceof Error ? error.message : String(error));
+    }
+    rows.push(row);
+  });
+
+  if (rows.length === 0) {
+    return { ...emptyRun, ignoredColumns, errors: ['The file has no employee lines'] };
+  }
+
+  const totals: BulkPayRunTotals = {
+    grossPay: sumRows(rows, results => results.grossPay),
+    withholding: sumRows(rows, totalWithholding),
+    superannuation: sumRows(rows, results => results.superannuation),
+    netIncome: sumRows(rows, results => results.netIncome),
+    takeHomePay: sumRows(rows, results => results.takeHomePay)
+  };
+
+  return { rows, totals, ignoredColumns, errors: [] };
+};
+
+const formatAmount = (amount: number): string => amount.toFixed(2);
+
+// The pay run as CSV, one line per employee with a totals line at the end
+export const formatBulkPayRunCsv = (run: BulkPayRun): string => {
+  const header = ['Line', 'Employee ID', 'Name', 'Pay date', 'Gross', 'PAYG withheld', 'Super', 'Net', 'Take-home', 'Errors'];
+  const lines = run.rows.map(row => [
+    row.line,
+    row.employeeId,
+    row.name,
+    row.results ? formatIsoDate(row.results.currentPeriod.payDate) : '',
+    row.results ? formatAmount(row.results.grossPay) : '',
+    row.results ? formatAmount(totalWithholding(row.results)) : '',
+    row.results ? formatAmount(row.results.superannuation) : '',
+    row.results ? formatAmount(row.results.netIncome) : '',
+    row.results ? formatAmount(row.results.takeHomePay) : '',
+    row.errors.join('; ')
+  ]);
+  const { totals } = run;
+  const totalLine = [
+    '', '', 'Total', '',
+    formatAmount(totals.grossPay),
+    formatAmount(totals.withholding),
+    formatAmount(totals.superannuation),
+    formatAmount(totals.netIncome),
+    formatAmount(totals.takeHomePay),
+    ''
+  ];
+  return formatCsv([header, ...lines, totalLine]);
+};
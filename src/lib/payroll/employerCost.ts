@@ -0,0 +1,60 @@
+import type {
+  AustralianState,
+  CalculationResults,
+  EmployerCost,
+  EmployerCostAmounts,
+  InputState,
+  PayrollTaxRule
+} from './types';
+import { getPayFrequencyRule } from './schedule';
+
+// Annual payroll tax on an employer's total taxable wages
+export const calculatePayrollTax = (rule: PayrollTaxRule, wages: number): number => {
+  const bracket = [...rule.brackets].reverse().find(b => wages > b.min);
+  return bracket ? bracket.base + bracket.rate * (wages - bracket.min) : 0;
+};
+
+// Cost of the pay period to the employer, annualised over a full year of pays at the pay frequency
+// even when employment started partway through the financial year. Payroll tax
+// wages include super guarantee, as they do in every state; workers compensation is on gross pay.
+// A final pay's termination payments aren't included.
+export const calculateEmployerCost = (input: InputState, results: CalculationResults): EmployerCost => {
+  const state = input.payrollTaxState as AustralianState;
+  const payrollTaxRule = results.rules.payrollTax[state];
+  const otherWages = Math.max(0, parseFloat(input.employerOtherWages) || 0);
+  const workersCompRate = (parseFloat(input.workersCompRate) || 0) / 100;
+  const periods = getPayFrequencyRule(input.payFrequency).periodsPerYear;
+
+  const payrollTaxWages = (results.grossPay + results.superGuarantee) * periods;
+  const annualPayrollTax = calculatePayrollTax(payrollTaxRule, otherWages + payrollTaxWages)
+    - calculatePayrollTax(payrollTaxRule, otherWages);
+
+  // Leave accrued this period, valued at the base rate the leave is paid at
+  const leaveRate = results.hourlyRate / (1 + results.casualLoading);
+  const annualLeaveAccrued = results.leave.annual.accrued * leaveRate;
+  const leaveLoadingProvision = annualLeaveAccrued * (parseFloat(input.leaveLoading) || 0) / 100;
+  const longServiceLeaveProvision = results.leave.longService.accrued * leaveRate;
+
+  const amounts = (scale: number, payrollTax: number): EmployerCostAmounts => {
+    const grossPay = results.grossPay * scale;
+    const superGuarantee = results.superGuarantee * scale;
+    const workersCompensation = grossPay * workersCompRate;
+    const leaveProvisions = (leaveLoadingProvision + longServiceLeaveProvision) * scale;
+    const onCosts = superGuarantee + payrollTax + workersCompensation + leaveProvisions;
+    return { grossPay, superGuarantee, payrollTax, workersCompensation, leaveProvisions, onCosts, total: grossPay + onCosts };
+  };
+
+  return {
+    state,
+    payrollTaxRule,
+    otherWages,
+    payrollTaxWages,
+    workersCompRate,
+    annualLeaveAccrued,
+    leaveLoadingProvision,
+    longServiceLeaveProvision,
+    periodsPerYear: periods,
+    period: amounts(1, annualPayrollTax / periods),
+    annual: amounts(periods, annualPayrollTax)
+  };
+};
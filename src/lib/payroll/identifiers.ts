@@ -0,0 +1,53 @@
+// Checks on the business and banking identifiers that appear on payslips and pay run files
+
+const digitsOf = (value: string): string => value.replace(/\s/g, '');
+
+// ABN check digits - subtract 1 from the first digit, weight each digit and the sum must be
+// divisible by 89
+const abnWeights = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+
+export const isValidAbn = (value: string): boolean => {
+  const abn = digitsOf(value);
+  if (!/^\d{11}$/.test(abn)) {
+    return false;
+  }
+  const sum = abnWeights.reduce((total, weight, index) => {
+    const digit = Number(abn[index]) - (index === 0 ? 1 : 0);
+    return total + digit * weight;
+  }, 0);
+  return sum % 89 === 0;
+};
+
+// ABNs are written in groups of 2, 3, 3 and 3 digits
+export const formatAbn = (value: string): string => {
+  const abn = digitsOf(value);
+  return /^\d{11}$/.test(abn) ? abn.replace(/^(\d{2})(\d{3})(\d{3})(\d{3})$/, '$1 $2 $3 $4') : value.trim();
+};
+
+// TFN check digits - the weighted sum of the 9 digits must be divisible by 11
+const tfnWeights = [1, 4, 3, 7, 5, 8, 6, 9, 10];
+
+export const isValidTfn = (value: string): boolean => {
+  const tfn = digitsOf(value);
+  if (!/^\d{9}$/.test(tfn)) {
+    return false;
+  }
+  return tfnWeights.reduce((total, weight, index) => total + Number(tfn[index]) * weight, 0) % 11 === 0;
+};
+
+// BSBs are six digits, usually written with a hyphen after the third. 000-000 isn't a branch.
+export const isValidBsb = (value: string): boolean => {
+  const bsb = value.trim();
+  return /^\d{3}-?\d{3}$/.test(bsb) && bsb.replace('-', '') !== '000000';
+};
+
+export const formatBsb = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  return `${digits.slice(0, 3)}-${digits.slice(3, 6)}`;
+};
+
+// Account numbers in direct entry files are up to nine digits, with hyphens allowed
+export const isValidAccountNumber = (value: string): boolean => {
+  const accountNumber = value.trim();
+  return /^[\d-]{1,9}$/.test(accountNumber) && /[1-9]/.test(accountNumber);
+};
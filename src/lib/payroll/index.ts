@@ -0,0 +1,71 @@
+// Australian payroll calculations - PAYG withholding, Medicare, study loans, super and leave for
+// a single employee's pay run. Framework-free, so it can be used by the UI, API routes and tests.
+//
+//   const rules = resolveRulesPack(input);
+//   const results = computePayslip(input, rules);
+
+export type * from './types';
+export {
+  calculatorModeLabels,
+  earningsTypeLabels,
+  employmentTypeLabels,
+  leaveTypeLabels,
+  medicareExemptionLabels,
+  postTaxDeductionLabels,
+  preTaxDeductionLabels,
+  residencyLabels,
+  targetMeasureLabels,
+  terminationReasonLabels,
+  withholdingScaleLabels
+} from './labels';
+export { formatIsoDate, getPayFrequencyRule, isIsoDate, parseDate } from './schedule';
+export {
+  findRulesPack,
+  getRulesPack,
+  longServiceLeaveRules,
+  resolveRulesPack,
+  rulesPacks,
+  validateTaxRulesPack
+} from './rules';
+export {
+  computePayslip,
+  defaultInputState,
+  isAllowance,
+  PayslipInputError,
+  taxDeductiblePostTaxDeductions,
+  validateInputs
+} from './payslip';
+export {
+  calculatePayslipFromJson,
+  inputOptions,
+  isRecord,
+  listRowDefaults,
+  listRowOptions,
+  parseInputState
+} from './input';
+export { calculateBulkPayRun, formatBulkPayRunCsv, totalWithholding } from './bulkPayRun';
+export { formatCsv, parseCsv } from './csv';
+export {
+  formatAbn,
+  formatBsb,
+  isValidAbn,
+  isValidAccountNumber,
+  isValidBsb,
+  isValidTfn
+} from './identifiers';
+export {
+  buildPayslipDocument,
+  formatPayslipAmount,
+  formatPayslipDate,
+  renderPayslipPdf
+} from './payslipDocument';
+export { validateJsonSchema } from './jsonSchema';
+export { buildStpPayee, buildStpPayload, stpPayloadSchema, validateStpPayload } from './stp';
+export {
+  buildAbaFile,
+  defaultAbaFileOptions,
+  formatAbaFile,
+  getAbaPaymentAmount,
+  validateAbaFile
+} from './aba';
+export { calculateEmployerCost, calculatePayrollTax } from './employerCost';
@@ -0,0 +1,149 @@
+import type { InputErrors, InputState, PayslipOutcome } from './types';
+import {
+  calculatorModeLabels,
+  employmentTypeLabels,
+  medicareExemptionLabels,
+  postTaxDeductionLabels,
+  preTaxDeductionLabels,
+  residencyLabels,
+  targetMeasureLabels,
+  terminationReasonLabels
+} from './labels';
+import { payFrequencyRules } from './schedule';
+import { longServiceLeaveRules, resolveRulesPack } from './rules';
+import { computePayslip, defaultInputState, PayslipInputError, validateInputs } from './payslip';
+
+type ListField = 'salaryChanges' | 'earningsLines' | 'oneOffPayments' | 'preTaxDeductions' | 'postTaxDeductions';
+
+const timesheetEarningsTypes = ['ordinary', 'overtime', 'saturday', 'sunday', 'publicHoliday', 'allowanceTaxable', 'allowanceNonTaxable'];
+const oneOffPaymentTypes = ['bonus', 'commission', 'backPay', 'priorYearBackPay', 'leaveCashOut'];
+const amountTypes = ['fixed', 'percentage'];
+
+// Allowed values for the fields that pick from a list
+export const inputOptions: Partial<Record<keyof InputState, string[]>> = {
+  calculatorMode: Object.keys(calculatorModeLabels),
+  targetMeasure: Object.keys(targetMeasureLabels),
+  payFrequency: Object.keys(payFrequencyRules),
+  employmentType: Object.keys(employmentTypeLabels),
+  terminationReason: Object.keys(terminationReasonLabels),
+  proRataBasis: ['workingDays', 'calendarDays'],
+  longServiceLeaveState: Object.keys(longServiceLeaveRules),
+  payrollTaxState: Object.keys(longServiceLeaveRules),
+  medicareExemption: Object.keys(medicareExemptionLabels),
+  residencyStatus: Object.keys(residencyLabels)
+};
+
+// Each list row's fields with the value used when one is missing, and the allowed row types
+export const listRowDefaults: { [K in ListField]: Omit<InputState[K][number], 'id'> } = {
+  salaryChanges: { effectiveDate: '', annualSalary: '', fte: '' },
+  earningsLines: { type: 'ordinary', description: '', hours: '', multiplier: '1', amount: '', ote: true },
+  oneOffPayments: { type: 'bonus', description: '', amount: '', periods: '1', ote: true },
+  preTaxDeductions: { type: 'superSacrifice', description: '', amountType: 'fixed', amount: '' },
+  postTaxDeductions: { type: 'unionFees', description: '', amountType: 'fixed', amount: '', taxDeductible: true }
+};
+
+export const listRowOptions: Record<ListField, Record<string, string[]>> = {
+  salaryChanges: {},
+  earningsLines: { type: timesheetEarningsTypes },
+  oneOffPayments: { type: oneOffPaymentTypes },
+  preTaxDeductions: { type: Object.keys(preTaxDeductionLabels), amountType: amountTypes },
+  postTaxDeductions: { type: Object.keys(postTaxDeductionLabels), amountType: amountTypes }
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Text fields also accept numbers, which are kept as typed. Returns an error message for anything else.
+const readField = (
+  value: unknown,
+  fallback: string | boolean,
+  options: string[] | undefined
+): { value: string | boolean } | { error: string } => {
+  if (typeof fallback === 'boolean') {
+    return typeof value === 'boolean' ? { value } : { error: 'must be true or false' };
+  }
+  if (typeof value !== 'string' && !(typeof value === 'number' && isFinite(value))) {
+    return { error: 'must be a string or number' };
+  }
+  const text = String(value);
+  if (options && !options.includes(text)) {
+    return { error: `must be one of ${options.join(', ')}` };
+  }
+  return { value: text };
+};
+
+const readList = <K extends ListField>(field: K, value: unknown): { rows: InputState[K] } | { error: string } => {
+  if (!Array.isArray(value)) {
+    return { error: 'must be an array' };
+  }
+
+  const defaults = listRowDefaults[field] as Record<string, string | boolean>;
+  const rows: Array<Record<string, string | boolean>> = [];
+  for (const [index, row] of value.entries()) {
+    if (!isRecord(row)) {
+      return { error: `row ${index + 1} must be an object` };
+    }
+    const parsed: Record<string, string | boolean> = { id: typeof row.id === 'string' ? row.id : `${field}-${index + 1}` };
+    for (const [key, fallback] of Object.entries(defaults)) {
+      const result = row[key] === undefined ? { value: fallback } : readField(row[key], fallback, listRowOptions[field][key]);
+      if ('error' in result) {
+        return { error: `row ${index + 1} ${key} ${result.error}` };
+      }
+      parsed[key] = result.value;
+    }
+    rows.push(parsed);
+  }
+
+  return { rows: rows as unknown as InputState[K] };
+};
+
+// Reads calculator inputs from untrusted JSON such as an API request body. Missing fields take
+// their defaults, unknown fields are ignored and wrongly typed fields are reported.
+export const parseInputState = (value: Record<string, unknown>): { input: InputState; errors: InputErrors } => {
+  const input: InputState = { ...defaultInputState };
+  const errors: InputErrors = {};
+
+  (Object.keys(defaultInputState) as Array<keyof InputState>).forEach(field => {
+    if (value[field] === undefined) {
+      return;
+    }
+    const fallback = defaultInputState[field];
+    const result = Array.isArray(fallback)
+      ? readList(field as ListField, value[field])
+      : readField(value[field], fallback, inputOptions[field]);
+
+    if ('error' in result) {
+      errors[field] = `${field} ${result.error}`;
+    } else {
+      Object.assign(input, { [field]: 'rows' in result ? result.rows : result.value });
+    }
+  });
+
+  return { input, errors };
+};
+
+// Parses, validates and calculates a payslip from JSON inputs, using the rules pack for the
+// chosen tax year or pay date
+export const calculatePayslipFromJson = (value: Record<string, unknown>): PayslipOutcome => {
+  const { input, errors } = parseInputState(value);
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  const rules = resolveRulesPack(input);
+  const inputErrors = validateInputs(input, rules);
+  if (Object.keys(inputErrors).length > 0 || !rules) {
+    return { ok: false, errors: inputErrors };
+  }
+
+  // Net to gross reports a target no rate can reach as a field error
+  try {
+    return { ok: true, results: computePayslip(input, rules) };
+  } catch (error) {
+    if (error instanceof PayslipInputError) {
+      return { ok: false, errors: error.errors };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,74 @@
+import type { JsonSchema } from './types';
+
+// Checks JSON against the subset of JSON Schema (draft 2020-12) used by the export formats here -
+// types, required and closed properties, enums, patterns, lengths and minimums
+
+const typeOf = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer';
+  }
+  return typeof value;
+};
+
+// Returns a message for each problem found, with the path to the value in the document
+export const validateJsonSchema = (schema: JsonSchema, value: unknown, path = '$'): string[] => {
+  const actualType = typeOf(value);
+  if (schema.type && schema.type !== actualType && !(schema.type === 'number' && actualType === 'integer')) {
+    return [`${path} must be ${schema.type === 'integer' || schema.type === 'array' ? 'an' : 'a'} ${schema.type}`];
+  }
+
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must have at least ${schema.minLength} character${schema.minLength === 1 ? '' : 's'}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${path} must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path} must be at least ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => errors.push(...validateJsonSchema(items, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (actualType === 'object') {
+    const record = value as Record<string, unknown>;
+    (schema.required || [])
+      .filter(key => record[key] === undefined)
+      .forEach(key => errors.push(`${path}.${key} is required`));
+    // Undefined properties are left out when the document is serialised
+    Object.entries(record).filter(([, child]) => child !== undefined).forEach(([key, child]) => {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateJsonSchema(childSchema, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+
+  return errors;
+};
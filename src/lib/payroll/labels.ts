@@ -0,0 +1,99 @@
+import type {
+  CalculatorMode,
+  EarningsType,
+  EmploymentType,
+  LeaveType,
+  MedicareExemption,
+  PostTaxDeductionType,
+  PreTaxDeductionType,
+  ResidencyStatus,
+  TargetMeasure,
+  TerminationReason,
+  WithholdingScale
+} from './types';
+
+export const terminationReasonLabels: Record<TerminationReason, string> = {
+  resignation: 'Resignation, dismissal or retirement',
+  genuineRedundancy: 'Genuine redundancy',
+  invalidity: 'Invalidity'
+};
+
+export const employmentTypeLabels: Record<EmploymentType, string> = {
+  fullTime: 'Full-time',
+  partTime: 'Part-time',
+  casual: 'Casual'
+};
+
+export const earningsTypeLabels: Record<EarningsType, string> = {
+  salary: 'Ordinary salary',
+  ordinary: 'Ordinary hours',
+  overtime: 'Overtime',
+  saturday: 'Saturday penalty',
+  sunday: 'Sunday penalty',
+  publicHoliday: 'Public holiday',
+  allowanceTaxable: 'Allowance (taxable)',
+  allowanceNonTaxable: 'Allowance (non-taxable)',
+  annualLeave: 'Annual leave',
+  personalLeave: "Personal/carer's leave",
+  longServiceLeave: 'Long service leave',
+  leaveLoading: 'Annual leave loading',
+  bonus: 'Bonus',
+  commission: 'Commission',
+  backPay: 'Back pay',
+  priorYearBackPay: 'Back pay (prior year)',
+  leaveCashOut: 'Leave cash-out'
+};
+
+export const leaveTypeLabels: Record<LeaveType, string> = {
+  annual: 'Annual Leave',
+  personal: "Personal/Carer's Leave",
+  longService: 'Long Service Leave'
+};
+
+export const preTaxDeductionLabels: Record<PreTaxDeductionType, string> = {
+  superSacrifice: 'Salary sacrifice to super',
+  novatedLease: 'Novated lease (pre-tax)',
+  other: 'Other salary sacrifice'
+};
+
+export const postTaxDeductionLabels: Record<PostTaxDeductionType, string> = {
+  unionFees: 'Union fees',
+  novatedLease: 'Novated lease (post-tax)',
+  childSupport: 'Child support garnishee',
+  workplaceGiving: 'Workplace giving',
+  afterTaxSuper: 'After-tax super contribution',
+  other: 'Other deduction'
+};
+
+export const medicareExemptionLabels: Record<MedicareExemption, string> = {
+  none: 'No exemption',
+  full: 'Full exemption',
+  half: 'Half exemption'
+};
+
+export const withholdingScaleLabels: Record<WithholdingScale, string> = {
+  noTaxFreeThreshold: 'Scale 1 - tax-free threshold not claimed',
+  taxFreeThreshold: 'Scale 2 - tax-free threshold claimed',
+  foreignResident: 'Scale 3 - foreign resident',
+  noTfn: 'Scale 4 - TFN not provided',
+  fullMedicareExemption: 'Scale 5 - full Medicare levy exemption',
+  halfMedicareExemption: 'Scale 6 - half Medicare levy exemption',
+  workingHolidayMaker: 'Working holiday maker rates'
+};
+
+export const residencyLabels: Record<ResidencyStatus, string> = {
+  resident: 'Australian resident',
+  foreignResident: 'Foreign resident',
+  workingHolidayMaker: 'Working holiday maker'
+};
+
+export const calculatorModeLabels: Record<CalculatorMode, string> = {
+  forward: 'Gross to Net',
+  reverse: 'Net to Gross',
+  final: 'Final Pay'
+};
+
+export const targetMeasureLabels: Record<TargetMeasure, string> = {
+  net: 'Net pay',
+  takeHome: 'Take-home pay'
+};
@@ -0,0 +1,1174 @@
+import type {
+  AustralianState,
+  CalculationResults,
+  DeductionLine,
+  EarningsLineResult,
+  EarningsType,
+  EmploymentType,
+  FinalPayResult,
+  Household,
+  InputErrors,
+  InputState,
+  LeaveBalance,
+  LeaveType,
+  MedicareExemption,
+  OneOffPayment,
+  PayPeriod,
+  PayRun,
+  PostTaxDeductionLine,
+  PostTaxDeductionType,
+  PreTaxDeductionType,
+  ProRataBasis,
+  ResidencyStatus,
+  SalaryChange,
+  SalaryRate,
+  SuperContribution,
+  TargetMeasure,
+  TaxRulesPack,
+  TerminationPaymentLine,
+  TerminationReason
+} from './types';
+import { earningsTypeLabels, postTaxDeductionLabels, preTaxDeductionLabels } from './labels';
+import { isValidAbn, isValidBsb, isValidTfn } from './identifiers';
+import {
+  addBusinessDays,
+  calculateExtraPayWithholding,
+  calculateProRata,
+  countDays,
+  generatePayDates,
+  getPayFrequencyRule,
+  getPayPeriod,
+  getSuperQuarterStart,
+  isIsoDate,
+  parseDate
+} from './schedule';
+import {
+  longServiceLeavePeriods,
+  longServiceLeaveRules,
+  paydaySuperStart,
+  preservationAges,
+  resolveRulesPack,
+  terminationWithholdingRates
+} from './rules';
+import {
+  calculateMedicareLevy,
+  calculateMedicareLevySurcharge,
+  calculateOneOffWithholding,
+  calculatePriorYearBackPayWithholding,
+  calculateStudyLoanRepayment,
+  calculateStudyLoanWithholding,
+  calculateTax,
+  calculateTaxOffsets,
+  calculateWithholding,
+  calculateWorkingHolidayMakerWithholding,
+  getTaxBrackets,
+  getWithholdingScale,
+  isFamily
+} from './tax';
+
+// Hours that count as ordinary hours of work for leave accrual
+const ordinaryHoursEarningsTypes: EarningsType[] = ['salary', 'ordinary', 'saturday', 'sunday', 'publicHoliday', 'annualLeave', 'personalLeave', 'longServiceLeave'];
+
+export const isAllowance = (type: string): boolean => type === 'allowanceTaxable' || type === 'allowanceNonTaxable';
+
+// Deductions the employee can usually claim in their tax return
+export const taxDeductiblePostTaxDeductions: PostTaxDeductionType[] = ['unionFees', 'workplaceGiving'];
+
+// Fixed amounts are per pay period; percentages apply to the given base amount
+const calculateDeductionAmount = (amountType: string, amount: string, base: number): number => {
+  const value = parseFloat(amount) || 0;
+  return amountType === 'percentage' ? (base * value) / 100 : value;
+};
+
+// Salary and FTE in effect over time - the starting rate, then each dated change in order.
+// Blank fields on a change keep the previous value; full-time staff are always 1.0 FTE.
+const buildSalaryTimeline = (annualSalary: number, fte: number, changes: SalaryChange[], fullTime: boolean): SalaryRate[] => {
+  return [...changes]
+    .filter(change => change.effectiveDate)
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
+    .reduce<SalaryRate[]>((rates, change) => {
+      const previous = rates[rates.length - 1];
+      return [...rates, {
+        id: change.id,
+        from: parseDate(change.effectiveDate),
+        annualSalary: parseFloat(change.annualSalary) || previous.annualSalary,
+        fte: fullTime ? 1.0 : parseFloat(change.fte) || previous.fte
+      }];
+    }, [{ id: 'salary', from: null, annualSalary, fte }]);
+};
+
+const getSalaryRate = (rates: SalaryRate[], date: Date): SalaryRate => {
+  return [...rates].reverse().find(rate => !rate.from || rate.from <= date) || rates[0];
+};
+
+// Splits the paid part of a period at each salary change, counting the days paid at each rate
+const getSalarySegments = (
+  period: PayPeriod,
+  rates: SalaryRate[],
+  employmentStart: Date,
+  employmentEnd: Date | null,
+  basis: ProRataBasis
+): Array<{ rate: SalaryRate; days: number }> => {
+  const paidFrom = employmentStart > period.start ? employmentStart : period.start;
+  const paidTo = employmentEnd && employmentEnd < period.end ? employmentEnd : period.end;
+
+  return rates
+    .map((rate, index) => {
+      const nextFrom = rates[index + 1]?.from;
+      const from = rate.from && rate.from > paidFrom ? rate.from : paidFrom;
+      const dayBeforeNext = nextFrom ? new Date(nextFrom.getFullYear(), nextFrom.getMonth(), nextFrom.getDate() - 1) : null;
+      const to = dayBeforeNext && dayBeforeNext < paidTo ? dayBeforeNext : paidTo;
+      return { rate, days: from <= to ? countDays(from, to, basis) : 0 };
+    })
+    .filter(segment => segment.days > 0);
+};
+
+const sumPayRuns = (payRuns: PayRun[], value: (payRun: PayRun) => number): number => {
+  return payRuns.reduce((sum, payRun) => sum + value(payRun), 0);
+};
+
+// Contributions grouped by when they're due. Quarterly contributions are due 28 days after the
+// quarter ends; under payday super each pay's contributions are due within 7 business days.
+const buildSuperContributions = (payRuns: PayRun[], payDate: Date): SuperContribution[] => {
+  const contributions: SuperContribution[] = [];
+
+  payRuns.forEach(run => {
+    const runPayDate = run.period.payDate;
+    const paydaySuper = runPayDate >= paydaySuperStart;
+    const quarterStart = getSuperQuarterStart(runPayDate);
+    const id = paydaySuper ? `pay-${runPayDate.getTime()}` : `quarter-${quarterStart.getTime()}`;
+    const existing = contributions.find(contribution => contribution.id === id);
+
+    if (existing) {
+      existing.superGuarantee += run.superGuarantee;
+      existing.salarySacrifice += run.superSalarySacrifice;
+      existing.amount += run.superannuation;
+      existing.projected = existing.projected || runPayDate > payDate;
+      return;
+    }
+
+    const quarterEnd = new Date(quarterStart.getFullYear(), quarterStart.getMonth() + 3, 0);
+    contributions.push({
+      id,
+      label: paydaySuper
+        ? `Pay ${runPayDate.toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' })}`
+        : `${quarterStart.toLocaleDateString('en-AU', { month: 'short' })} - ${quarterEnd.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' })}`,
+      superGuarantee: run.superGuarantee,
+      salarySacrifice: run.superSalarySacrifice,
+      amount: run.superannuation,
+      dueDate: paydaySuper
+        ? addBusinessDays(runPayDate, 7)
+        : new Date(quarterEnd.getFullYear(), quarterEnd.getMonth() + 1, 28),
+      projected: runPayDate > payDate
+    });
+  });
+
+  return contributions;
+};
+
+// Inputs for a blank calculator - fill in the pay date, period end, employment start date and
+// salary or hourly rate to get a payslip
+export const defaultInputState: InputState = {
+  calculatorMode: 'forward',
+  targetPay: '',
+  targetMeasure: 'net',
+  payFrequency: 'fortnightly',
+  payDate: '',
+  periodEndDate: '',
+  employmentType: 'fullTime',
+  annualSalary: '',
+  casualHourlyRate: '',
+  casualLoading: '25',
+  casualHours: '',
+  employmentStartDate: '',
+  employmentEndDate: '',
+  terminationReason: 'resignation',
+  dateOfBirth: '',
+  redundancyPayment: '',
+  paymentInLieuOfNotice: '',
+  otherTerminationPayment: '',
+  payProRataLongServiceLeave: false,
+  salaryChanges: [],
+  proRataBasis: 'workingDays',
+  taxYear: '',
+  fullTimeHours: '38',
+  fte: '1.0',
+  annualLeaveDays: '20',
+  personalLeaveDays: '10',
+  longServiceLeaveState: 'NSW',
+  leaveLoading: '17.5',
+  openingAnnualLeave: '',
+  openingPersonalLeave: '',
+  openingLongServiceLeave: '',
+  annualLeaveTaken: '',
+  personalLeaveTaken: '',
+  longServiceLeaveTaken: '',
+  hasPrivateHealthInsurance: false,
+  isSeniorOrPensioner: false,
+  hasSpouse: false,
+  spouseIncome: '',
+  dependentChildren: '0',
+  medicareExemption: 'none',
+  tfnProvided: true,
+  residencyStatus: 'resident',
+  claimsTaxFreeThreshold: true,
+  withholdExtraPay: true,
+  hasStudyLoan: false,
+  employerName: '',
+  employerAbn: '',
+  employeeName: '',
+  employeeId: '',
+  employeeTfn: '',
+  superFundName: '',
+  bankBsb: '',
+  bankAccountNumber: '',
+  bankAccountName: '',
+  employerBsb: '',
+  employerAccountNumber: '',
+  employerAccountName: '',
+  employerBankCode: '',
+  employerApcaId: '',
+  payrollTaxState: 'NSW',
+  employerOtherWages: '',
+  workersCompRate: '',
+  earningsLines: [],
+  oneOffPayments: [],
+  preTaxDeductions: [],
+  postTaxDeductions: []
+};
+
+// Field-level checks on the inputs. Rules default to the pack chosen by the tax year or pay date.
+export const validateInputs = (inputs: InputState, rules: TaxRulesPack | undefined = resolveRulesPack(inputs)): InputErrors => {
+  const errors: InputErrors = {};
+
+  if (inputs.calculatorMode === 'final') {
+    if (!inputs.employmentEndDate) {
+      errors.employmentEndDate = 'Enter the last day of employment for a final pay';
+    }
+    const etpAmounts = [inputs.redundancyPayment, inputs.paymentInLieuOfNotice, inputs.otherTerminationPayment];
+    if (!inputs.dateOfBirth && etpAmounts.some(amount => parseFloat(amount) > 0)) {
+      errors.dateOfBirth = 'Enter the date of birth to work out the preservation age';
+    }
+  }
+
+  if (inputs.calculatorMode === 'reverse') {
+    if (!(parseFloat(inputs.targetPay) > 0)) {
+      errors.targetPay = 'Enter the pay you want to take home each period';
+    }
+    // The hourly rate can only be found from the hours it's paid for
+    if (inputs.employmentType === 'casual' && inputs.earningsLines.length === 0 && !(parseFloat(inputs.casualHours) > 0)) {
+      errors.casualHours = 'Enter the hours worked this period to find the hourly rate';
+    }
+  } else if (inputs.employmentType === 'casual') {
+    if (!(parseFloat(inputs.casualHourlyRate) > 0)) {
+      errors.casualHourlyRate = 'Enter the base hourly rate';
+    }
+  } else if (!(parseFloat(inputs.annualSalary) > 0)) {
+    errors.annualSalary = 'Enter the annual salary';
+  }
+  if (!inputs.payDate) {
+    errors.payDate = 'Enter the pay date';
+  } else if (!isIsoDate(inputs.payDate)) {
+    errors.payDate = 'Enter the pay date as YYYY-MM-DD';
+  }
+  if (!inputs.periodEndDate) {
+    errors.periodEndDate = 'Enter the last day of the pay period';
+  } else if (!isIsoDate(inputs.periodEndDate)) {
+    errors.periodEndDate = 'Enter the period end date as YYYY-MM-DD';
+  }
+  if (!inputs.employmentStartDate) {
+    errors.employmentStartDate = 'Enter the date employment started';
+  } else if (!isIsoDate(inputs.employmentStartDate)) {
+    errors.employmentStartDate = 'Enter the employment start date as YYYY-MM-DD';
+  }
+  if (inputs.employmentEndDate && !isIsoDate(inputs.employmentEndDate)) {
+    errors.employmentEndDate = 'Enter the employment end date as YYYY-MM-DD';
+  }
+  if (inputs.dateOfBirth && !isIsoDate(inputs.dateOfBirth)) {
+    errors.dateOfBirth = 'Enter the date of birth as YYYY-MM-DD';
+  }
+
+  // Hours, rates and amounts can't be negative, and blank ones fall back to their defaults
+  const isNegative = (value: string): boolean => value.trim() !== '' && !(parseFloat(value) >= 0);
+  const isNotPositive = (value: string): boolean => value.trim() !== '' && !(parseFloat(value) > 0);
+  if (isNotPositive(inputs.fullTimeHours)) {
+    errors.fullTimeHours = 'Enter the full-time hours a week';
+  }
+  const fte = parseFloat(inputs.fte);
+  if (inputs.employmentType === 'partTime' && inputs.fte.trim() && !(fte > 0 && fte <= 1)) {
+    errors.fte = 'Enter an FTE above 0 and up to 1.0';
+  }
+  if (inputs.employmentType === 'casual') {
+    if (isNegative(inputs.casualHours)) {
+      errors.casualHours = 'Enter the hours worked this period';
+    }
+    if (isNegative(inputs.casualLoading)) {
+      errors.casualLoading = 'Enter a casual loading of 0% or more';
+    }
+  }
+  if (inputs.employmentType !== 'casual' && isNegative(inputs.leaveLoading)) {
+    errors.leaveLoading = 'Enter a leave loading of 0% or more';
+  }
+  // Casuals only take long service leave
+  ([
+    ['annualLeaveTaken', 'annual leave'],
+    ['personalLeaveTaken', 'personal leave'],
+    ['longServiceLeaveTaken', 'long service leave']
+  ] as const)
+    .filter(([field]) => (inputs.employmentType !== 'casual' || field === 'longServiceLeaveTaken') && isNegative(inputs[field]))
+    .forEach(([field, label]) => {
+      errors[field] = `Enter the hours of ${label} taken, or leave it blank`;
+    });
+  if (inputs.calculatorMode === 'final') {
+    (['redundancyPayment', 'paymentInLieuOfNotice', 'otherTerminationPayment'] as const)
+      .filter(field => isNegative(inputs[field]))
+      .forEach(field => {
+        errors[field] = 'Enter an amount of 0 or more';
+      });
+  }
+  const salaryChange = inputs.salaryChanges.findIndex(change => change.effectiveDate && !isIsoDate(change.effectiveDate));
+  const salaryChangeAmount = inputs.salaryChanges.findIndex(change => isNotPositive(change.annualSalary) || isNotPositive(change.fte));
+  if (salaryChange >= 0) {
+    errors.salaryChanges = `Enter the date of salary change ${salaryChange + 1} as YYYY-MM-DD`;
+  } else if (salaryChangeAmount >= 0) {
+    errors.salaryChanges = `Enter a salary and FTE above 0 on salary change ${salaryChangeAmount + 1}, or leave them blank`;
+  }
+  const earningsLine = inputs.earningsLines.findIndex(line => isNegative(line.hours) || isNegative(line.multiplier) || isNegative(line.amount));
+  if (earningsLine >= 0) {
+    errors.earningsLines = `Enter hours, rates and amounts of 0 or more on timesheet line ${earningsLine + 1}`;
+  }
+  const oneOffPayment = inputs.oneOffPayments.findIndex(payment => isNegative(payment.amount));
+  if (oneOffPayment >= 0) {
+    errors.oneOffPayments = `Enter an amount of 0 or more for payment ${oneOffPayment + 1}`;
+  }
+  const preTaxDeduction = inputs.preTaxDeductions.findIndex(deduction => isNegative(deduction.amount));
+  if (preTaxDeduction >= 0) {
+    errors.preTaxDeductions = `Enter an amount of 0 or more for pre-tax deduction ${preTaxDeduction + 1}`;
+  }
+  const postTaxDeduction = inputs.postTaxDeductions.findIndex(deduction => isNegative(deduction.amount));
+  if (postTaxDeduction >= 0) {
+    errors.postTaxDeductions = `Enter an amount of 0 or more for post-tax deduction ${postTaxDeduction + 1}`;
+  }
+
+  if (inputs.employerAbn.trim() && !isValidAbn(inputs.employerAbn)) {
+    errors.employerAbn = 'Enter a valid 11-digit ABN';
+  }
+  if (inputs.employeeTfn.trim() && !isValidTfn(inputs.employeeTfn)) {
+    errors.employeeTfn = 'Enter a valid 9-digit TFN';
+  }
+  if (inputs.bankBsb.trim() && !isValidBsb(inputs.bankBsb)) {
+    errors.bankBsb = 'Enter a 6-digit BSB, like 062-000';
+  }
+  if (inputs.employerBsb.trim() && !isValidBsb(inputs.employerBsb)) {
+    errors.employerBsb = 'Enter a 6-digit BSB, like 062-000';
+  }
+  if (inputs.employerOtherWages.trim() && !(parseFloat(inputs.employerOtherWages) >= 0)) {
+    errors.employerOtherWages = 'Enter the employer\'s other annual wages, or leave it blank';
+  }
+  const workersCompRate = parseFloat(inputs.workersCompRate);
+  if (inputs.workersCompRate.trim() && !(workersCompRate >= 0 && workersCompRate <= 100)) {
+    errors.workersCompRate = 'Enter a workers compensation rate between 0 and 100%';
+  }
+  if (errors.payDate || errors.periodEndDate || errors.employmentStartDate) {
+    return errors;
+  }
+  if (!rules) {
+    errors.taxYear = inputs.taxYear
+      ? `No tax rules are available for ${inputs.taxYear}`
+      : 'No tax rules are available for this pay date - choose a tax year';
+  }
+
+  const payDate = parseDate(inputs.payDate);
+  const periodEnd = parseDate(inputs.periodEndDate);
+  const employmentStart = parseDate(inputs.employmentStartDate);
+  const period = getPayPeriod(payDate, periodEnd, getPayFrequencyRule(inputs.payFrequency), 0);
+
+  if (payDate < periodEnd) {
+    errors.payDate = 'The pay date must be on or after the period end date';
+  }
+  if (employmentStart > periodEnd || employmentStart > payDate) {
+    errors.employmentStartDate = 'Employment must start on or before the period end and pay dates';
+  }
+  if (inputs.employmentEndDate && !errors.employmentEndDate) {
+    const employmentEnd = parseDate(inputs.employmentEndDate);
+    if (employmentEnd < employmentStart) {
+      errors.employmentEndDate = 'Employment can\'t end before it starts';
+    } else if (employmentEnd < period.start) {
+      errors.employmentEndDate = 'Employment ended before this pay period started';
+    }
+  }
+
+  return errors;
+};
+
+// Runs the full pay schedule and works out this period's payslip, YTD and annual figures.
+// Inputs are assumed to have passed validateInputs.
+const calculatePayslip = (inputs: InputState, rules: TaxRulesPack): CalculationResults => {
+  const employmentType = inputs.employmentType as EmploymentType;
+  const isCasual = employmentType === 'casual';
+  const annualSalary = parseFloat(inputs.annualSalary) || 0;
+  const fullTimeHours = parseFloat(inputs.fullTimeHours) || 38;
+  const payFrequency = getPayFrequencyRule(inputs.payFrequency);
+  
+  // Casuals are paid a loaded hourly rate instead of a salary
+  const casualLoading = isCasual ? (parseFloat(inputs.casualLoading) || 0) / 100 : 0;
+  const casualHours = parseFloat(inputs.casualHours) || 0;
+  
+  // Pay schedule for the financial year, using the pay date as the anchor. Every pay period lines
+  // up with the current one, and only periods that overlap employment are paid.
+  const payDate = parseDate(inputs.payDate);
+  const employmentStart = parseDate(inputs.employmentStartDate);
+  const employmentEnd = inputs.employmentEndDate ? parseDate(inputs.employmentEndDate) : null;
+  const proRataBasis = inputs.proRataBasis as ProRataBasis;
+  const scheduledPayDates = generatePayDates(payDate, payFrequency);
+  const currentIndex = scheduledPayDates.findIndex(date => date.getTime() === payDate.getTime());
+  const payPeriods = scheduledPayDates
+    .map((date, index) => getPayPeriod(date, parseDate(inputs.periodEndDate), payFrequency, index - currentIndex))
+    .filter(period => period.end >= employmentStart && (!employmentEnd || period.start <= employmentEnd))
+    .map(period => ({ ...period, ...calculateProRata(period, employmentStart, employmentEnd, proRataBasis) }));
+  const periodsPerYear = payPeriods.length;
+  // An extra (27th or 53rd) pay only counts when this employee is paid in it
+  const hasExtraPay = periodsPerYear > payFrequency.periodsPerYear;
+  const periodsToDate = payPeriods.filter(period => period.payDate <= payDate).length;
+  const currentPeriod = payPeriods[periodsToDate - 1];
+  const nextPayDate = payPeriods[periodsToDate]?.payDate || null;
+  
+  // Salary timeline - the starting salary and FTE, then each dated change
+  const salaryRates = buildSalaryTimeline(
+    annualSalary,
+    employmentType === 'fullTime' ? 1.0 : parseFloat(inputs.fte) || 1.0,
+    inputs.salaryChanges,
+    employmentType === 'fullTime'
+  );
+  const currentRate = getSalaryRate(salaryRates, currentPeriod.end);
+  
+  // Base hourly rate - the loaded casual rate, or the full-time rate on the salary in effect
+  const getHourlyRate = (rate: SalaryRate): number => isCasual
+    ? (parseFloat(inputs.casualHourlyRate) || 0) * (1 + casualLoading)
+    : rate.annualSalary / (52 * fullTimeHours);
+  const hourlyRate = getHourlyRate(currentRate);
+  const usesTimesheet = inputs.earningsLines.length > 0;
+  
+  // Leave taken this period, paid at the base rate. Casuals don't get paid annual or personal leave.
+  const leaveTaken: Record<LeaveType, number> = {
+    annual: isCasual ? 0 : parseFloat(inputs.annualLeaveTaken) || 0,
+    personal: isCasual ? 0 : parseFloat(inputs.personalLeaveTaken) || 0,
+    longService: parseFloat(inputs.longServiceLeaveTaken) || 0
+  };
+  const leaveEarningsTypes: Record<LeaveType, EarningsType> = {
+    annual: 'annualLeave',
+    personal: 'personalLeave',
+    longService: 'longServiceLeave'
+  };
+  const noLeaveTaken: Record<LeaveType, number> = { annual: 0, personal: 0, longService: 0 };
+  const leaveHours = leaveTaken.annual + leaveTaken.personal + leaveTaken.longService;
+  
+  // FTE follows the salary timeline, and is implied by hours worked for casuals
+  const casualHoursWorked = usesTimesheet
+    ? (inputs.earningsLines.reduce((sum, line) => sum + (isAllowance(line.type) ? 0 : parseFloat(line.hours) || 0), 0) + leaveHours)
+    : casualHours + leaveHours;
+  const fte = isCasual ? casualHoursWorked / (payFrequency.weeksPerPeriod * fullTimeHours) : currentRate.fte;
+  
+  // TFN declaration
+  const residency = inputs.residencyStatus as ResidencyStatus;
+  const medicareExemption = inputs.medicareExemption as MedicareExemption;
+  const withholdingScale = getWithholdingScale(residency, inputs.tfnProvided, inputs.claimsTaxFreeThreshold, medicareExemption);
+  
+  // Household for the family Medicare levy, MLS and SAPTO thresholds
+  const household: Household = {
+    hasSpouse: inputs.hasSpouse,
+    spouseIncome: inputs.hasSpouse ? parseFloat(inputs.spouseIncome) || 0 : 0,
+    dependentChildren: Math.max(0, parseInt(inputs.dependentChildren, 10) || 0),
+    isSenior: inputs.isSeniorOrPensioner
+  };
+  const superRate = rules.super.guaranteeRate;
+  const contributionBase = rules.super.maximumContributionBase;
+  
+  // A single pay run at the current rates. Salaried pay is pro-rated for periods that are only
+  // partly worked; timesheet and casual hours are already the hours actually worked.
+  const calculatePayRun = (
+    period: PayPeriod,
+    priorRuns: PayRun[],
+    oneOffPayments: OneOffPayment[],
+    runLeaveTaken: Record<LeaveType, number>
+  ): PayRun => {
+    const runHourlyRate = getHourlyRate(getSalaryRate(salaryRates, period.end));
+    
+    // Timesheet earnings lines, when entered, replace the salaried pay for the period
+    const timesheetLines: EarningsLineResult[] = inputs.earningsLines.map(line => {
+      const allowance = isAllowance(line.type);
+      const hours = allowance ? 0 : parseFloat(line.hours) || 0;
+      const rate = allowance ? 0 : runHourlyRate * (parseFloat(line.multiplier) || 1);
+      const amount = allowance ? parseFloat(line.amount) || 0 : hours * rate;
+      return {
+        id: line.id,
+        type: line.type,
+        label: line.description || earningsTypeLabels[line.type as EarningsType],
+        hours,
+        rate,
+        amount,
+        taxable: line.type !== 'allowanceNonTaxable',
+        ote: line.ote,
+        ytd: 0
+      };
+    });
+    
+    // Casual loading isn't paid on leave
+    const leaveRate = isCasual ? runHourlyRate / (1 + casualLoading) : runHourlyRate;
+    const leaveLines: EarningsLineResult[] = (Object.keys(runLeaveTaken) as LeaveType[])
+      .filter(type => runLeaveTaken[type] > 0)
+      .map(type => ({
+        id: type,
+        type: leaveEarningsTypes[type],
+        label: earningsTypeLabels[leaveEarningsTypes[type]],
+        hours: runLeaveTaken[type],
+        rate: leaveRate,
+        amount: runLeaveTaken[type] * leaveRate,
+        taxable: true,
+        ote: true,
+        ytd: 0
+      }));
+    const leavePay = leaveLines.reduce((sum, line) => sum + line.amount, 0);
+    const runLeaveHours = leaveLines.reduce((sum, line) => sum + line.hours, 0);
+    
+    // Annual leave loading on annual leave taken
+    const leaveLoading = runLeaveTaken.annual * leaveRate * (parseFloat(inputs.leaveLoading) || 0) / 100;
+    
+    // Base pay for the period - salaried leave is paid out of the regular salary rather than on top of it
+    const baseLines: EarningsLineResult[] = [];
+    if (usesTimesheet) {
+      baseLines.push(...timesheetLines, ...leaveLines);
+    } else if (isCasual) {
+      baseLines.push({
+        id: 'ordinary',
+        type: 'ordinary',
+        label: earningsTypeLabels.ordinary,
+        hours: casualHours,
+        rate: runHourlyRate,
+        amount: casualHours * runHourlyRate,
+        taxable: true,
+        ote: true,
+        ytd: 0
+      }, ...leaveLines);
+    } else {
+      // Salary for the days paid at each rate in effect, with a separate line from any change in the period
+      const salaryLines: EarningsLineResult[] = getSalarySegments(period, salaryRates, employmentStart, employmentEnd, proRataBasis)
+        .map(({ rate, days }) => {
+          const share = days / period.daysInPeriod;
+          return {
+            id: rate.id,
+            type: 'salary',
+            label: rate.from && rate.from > period.start
+              ? `${earningsTypeLabels.salary} from ${rate.from.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })}`
+              : earningsTypeLabels.salary,
+            hours: fullTimeHours * rate.fte * payFrequency.weeksPerPeriod * share,
+            rate: getHourlyRate(rate),
+            amount: (rate.annualSalary * rate.fte * share) / payFrequency.periodsPerYear,
+            taxable: true,
+            ote: true,
+            ytd: 0
+          };
+        });
+      const latest = salaryLines[salaryLines.length - 1];
+      if (latest) {
+        latest.hours = Math.max(0, latest.hours - runLeaveHours);
+        latest.amount = Math.max(0, latest.amount - leavePay);
+      }
+      baseLines.push(...salaryLines, ...leaveLines);
+    }
+    if (leaveLoading > 0) {
+      baseLines.push({
+        id: 'leaveLoading',
+        type: 'leaveLoading',
+        label: earningsTypeLabels.leaveLoading,
+        hours: 0,
+        rate: 0,
+        amount: leaveLoading,
+        taxable: true,
+        ote: true,
+        ytd: 0
+      });
+    }
+    
+    // Regular earnings for the period, withheld under the tax tables. Percentage deductions
+    // apply to regular earnings rather than one-off payments.
+    const regularGrossPay = baseLines.reduce((sum, line) => sum + line.amount, 0);
+    const nonTaxableAllowances = baseLines
+      .filter(line => !line.taxable)
+      .reduce((sum, line) => sum + line.amount, 0);
+    const ordinaryHours = baseLines
+      .filter(line => ordinaryHoursEarningsTypes.includes(line.type as EarningsType))
+      .reduce((sum, line) => sum + line.hours, 0);
+    const taxableEarnings = regularGrossPay - nonTaxableAllowances;
+    
+    // Pre-tax (salary sacrifice) deductions reduce taxable income
+    const preTaxDeductions: DeductionLine[] = inputs.preTaxDeductions.map(deduction => ({
+      id: deduction.id,
+      type: deduction.type,
+      label: deduction.description || preTaxDeductionLabels[deduction.type as PreTaxDeductionType],
+      amount: calculateDeductionAmount(deduction.amountType, deduction.amount, regularGrossPay),
+      ytd: 0
+    }));
+    const totalPreTaxDeductions = Math.min(taxableEarnings, preTaxDeductions.reduce((sum, d) => sum + d.amount, 0));
+    const superSalarySacrifice = preTaxDeductions
+      .filter(d => d.type === 'superSacrifice')
+      .reduce((sum, d) => sum + d.amount, 0);
+    const regularTaxableIncome = taxableEarnings - totalPreTaxDeductions;
+    
+    // One-off payments are paid on top of regular earnings and are always taxable
+    const oneOffLines: EarningsLineResult[] = oneOffPayments.map(payment => ({
+      id: payment.id,
+      type: payment.type,
+      label: payment.description || earningsTypeLabels[payment.type as EarningsType],
+      hours: 0,
+      rate: 0,
+      amount: parseFloat(payment.amount) || 0,
+      taxable: true,
+      ote: payment.ote,
+      ytd: 0
+    }));
+    const earningsLines = [...baseLines, ...oneOffLines];
+    const grossPay = earningsLines.reduce((sum, line) => sum + line.amount, 0);
+    const ordinaryTimeEarnings = earningsLines
+      .filter(line => line.ote)
+      .reduce((sum, line) => sum + line.amount, 0);
+    const taxableIncome = regularTaxableIncome + oneOffLines.reduce((sum, line) => sum + line.amount, 0);
+    
+    // PAYG withholding from the Schedule 1 tax tables (includes the Medicare levy)
+    const withhold = (earnings: number): number => withholdingScale === 'workingHolidayMaker'
+      ? calculateWorkingHolidayMakerWithholding(earnings, sumPayRuns(priorRuns, run => run.taxableIncome), rules)
+      : calculateWithholding(earnings, inputs.payFrequency, rules, withholdingScale, residency);
+    const extraPayWithholding = hasExtraPay && inputs.withholdExtraPay && withholdingScale !== 'noTfn' && withholdingScale !== 'workingHolidayMaker'
+      ? calculateExtraPayWithholding(regularTaxableIncome, payFrequency)
+      : 0;
+    const withholding = withhold(regularTaxableIncome) + extraPayWithholding;
+    
+    // Extra withholding on one-off payments (Schedule 5). WHM withholding is already cumulative,
+    // so their payments aren't spread.
+    const noTfnRates = rules.withholding.noTfn;
+    const maxRate = residency === 'resident' ? noTfnRates.resident : noTfnRates.foreignResident;
+    const spreadPeriods = (payment: OneOffPayment): number => withholdingScale === 'workingHolidayMaker'
+      ? 1
+      : Math.max(1, parseInt(payment.periods, 10) || 1);
+    // Back pay from an earlier financial year is instead withheld on a year of normal earnings at the
+    // marginal rates plus the Medicare levy. Without the tax-free threshold it counts as already used.
+    const usesAnnualMethod = withholdingScale !== 'noTfn' && withholdingScale !== 'workingHolidayMaker';
+    const brackets = getTaxBrackets(rules, residency, inputs.tfnProvided);
+    const taxFreeThreshold = withholdingScale === 'noTaxFreeThreshold' ? brackets[0].max : 0;
+    const taxOnAnnualEarnings = (earnings: number): number => calculateTax(earnings, brackets)
+      + (residency === 'resident' ? calculateMedicareLevy(earnings, rules, household, medicareExemption) : 0);
+    const oneOffWithholding = oneOffPayments.reduce((sum, payment) => sum + (payment.type === 'priorYearBackPay' && usesAnnualMethod
+      ? calculatePriorYearBackPayWithholding(
+          parseFloat(payment.amount) || 0,
+          regularTaxableIncome * payFrequency.periodsPerYear + taxFreeThreshold,
+          taxOnAnnualEarnings,
+          maxRate
+        )
+      : calculateOneOffWithholding(
+          parseFloat(payment.amount) || 0,
+          spreadPeriods(payment),
+          regularTaxableIncome,
+          withhold,
+          maxRate
+        )), 0);
+    
+    // Study loan component (Schedule 8), withheld in addition to PAYG
+    const withholdStudyLoan = (earnings: number): number => inputs.hasStudyLoan
+      ? calculateStudyLoanWithholding(earnings, inputs.payFrequency, rules, withholdingScale)
+      : 0;
+    const studyLoanWithholding = withholdStudyLoan(regularTaxableIncome) + oneOffPayments.reduce((sum, payment) => sum + calculateOneOffWithholding(
+      parseFloat(payment.amount) || 0,
+      spreadPeriods(payment),
+      regularTaxableIncome,
+      withholdStudyLoan,
+      1
+    ), 0);
+    
+    // Non-taxable allowances are paid on top of taxable income after withholding
+    const netPay = taxableIncome + nonTaxableAllowances - withholding - oneOffWithholding - studyLoanWithholding;
+    
+    // Post-tax deductions come out of net pay, leaving the amount deposited to the bank
+    const postTaxDeductions: PostTaxDeductionLine[] = inputs.postTaxDeductions.map(deduction => ({
+      id: deduction.id,
+      type: deduction.type,
+      label: deduction.description || postTaxDeductionLabels[deduction.type as PostTaxDeductionType],
+      amount: calculateDeductionAmount(deduction.amountType, deduction.amount, regularGrossPay),
+      ytd: 0,
+      taxDeductible: deduction.taxDeductible
+    }));
+    const totalPostTaxDeductions = Math.min(Math.max(0, netPay), postTaxDeductions.reduce((sum, d) => sum + d.amount, 0));
+    
+    // Superannuation - SG is calculated on ordinary time earnings before salary sacrifice, up to
+    // the maximum contribution base for the quarter (or year) the pay falls in
+    const quarterStart = getSuperQuarterStart(period.payDate).getTime();
+    const baseOrdinaryTimeEarnings = sumPayRuns(
+      priorRuns.filter(run => rules.super.contributionBasePeriod === 'year'
+        || getSuperQuarterStart(run.period.payDate).getTime() === quarterStart),
+      run => run.ordinaryTimeEarnings
+    );
+    const superGuarantee = Math.min(ordinaryTimeEarnings, Math.max(0, contributionBase - baseOrdinaryTimeEarnings)) * superRate;
+    
+    return {
+      period,
+      earningsLines,
+      leaveLoading,
+      grossPay,
+      nonTaxableAllowances,
+      ordinaryTimeEarnings,
+      ordinaryHours,
+      preTaxDeductions,
+      totalPreTaxDeductions,
+      superSalarySacrifice,
+      taxableIncome,
+      withholding,
+      extraPayWithholding,
+      oneOffWithholding,
+      studyLoanWithholding,
+      netPay,
+      postTaxDeductions,
+      totalPostTaxDeductions,
+      takeHomePay: netPay - totalPostTaxDeductions,
+      superGuarantee,
+      superannuation: superGuarantee + superSalarySacrifice
+    };
+  };
+  
+  // Run every pay in the schedule - WHM withholding and the MSCB depend on earlier pays.
+  // One-off payments and leave taken are only in the current pay run.
+  const payRuns: PayRun[] = [];
+  for (const period of payPeriods) {
+    payRuns.push(calculatePayRun(
+      period,
+      payRuns,
+      period === currentPeriod ? inputs.oneOffPayments : [],
+      period === currentPeriod ? leaveTaken : noLeaveTaken
+    ));
+  }
+  const ytdPayRuns = payRuns.slice(0, periodsToDate);
+  const current = ytdPayRuns[ytdPayRuns.length - 1];
+  const {
+    grossPay,
+    nonTaxableAllowances,
+    ordinaryTimeEarnings,
+    ordinaryHours,
+    totalPreTaxDeductions,
+    superSalarySacrifice,
+    taxableIncome,
+    withholding,
+    extraPayWithholding,
+    oneOffWithholding,
+    studyLoanWithholding,
+    netPay,
+    totalPostTaxDeductions,
+    takeHomePay,
+    superGuarantee,
+    superannuation,
+    leaveLoading
+  } = current;
+  
+  // Payslip lines with their YTD totals across the pay runs to date
+  const earningsLines = current.earningsLines.map(line => ({
+    ...line,
+    ytd: sumPayRuns(ytdPayRuns, run => run.earningsLines
+      .filter(l => l.id === line.id)
+      .reduce((sum, l) => sum + l.amount, 0))
+  }));
+  const preTaxDeductions = current.preTaxDeductions.map(deduction => ({
+    ...deduction,
+    ytd: sumPayRuns(ytdPayRuns, run => run.preTaxDeductions.find(d => d.id === deduction.id)?.amount || 0)
+  }));
+  const postTaxDeductions = current.postTaxDeductions.map(deduction => ({
+    ...deduction,
+    ytd: sumPayRuns(ytdPayRuns, run => run.postTaxDeductions.find(d => d.id === deduction.id)?.amount || 0)
+  }));
+  
+  // Salary adjusted for FTE, or the annualised equivalent of this period's pay for casuals
+  const effectiveAnnualSalary = isCasual ? grossPay * payFrequency.periodsPerYear : currentRate.annualSalary * fte;
+  
+  // Annual totals across every pay run in the financial year.
+  // Reportable super contributions count towards MLS and study loan repayment income.
+  const annualTaxableIncome = sumPayRuns(payRuns, run => run.taxableIncome);
+  const annualReportableSuper = sumPayRuns(payRuns, run => run.superSalarySacrifice);
+  const annualWithholding = sumPayRuns(payRuns, run => run.withholding + run.oneOffWithholding);
+  const annualStudyLoanWithholding = sumPayRuns(payRuns, run => run.studyLoanWithholding);
+  const annualDeductions = sumPayRuns(payRuns, run => run.postTaxDeductions
+    .filter(d => d.taxDeductible)
+    .reduce((sum, d) => sum + d.amount, 0));
+  
+  // YTD totals across the pay runs to date
+  const ytdGross = sumPayRuns(ytdPayRuns, run => run.grossPay);
+  const ytdOrdinaryTimeEarnings = sumPayRuns(ytdPayRuns, run => run.ordinaryTimeEarnings);
+  const ytdPreTaxDeductions = sumPayRuns(ytdPayRuns, run => run.totalPreTaxDeductions);
+  const ytdTaxableIncome = sumPayRuns(ytdPayRuns, run => run.taxableIncome);
+  const ytdWithholding = sumPayRuns(ytdPayRuns, run => run.withholding + run.oneOffWithholding);
+  const ytdStudyLoanWithholding = sumPayRuns(ytdPayRuns, run => run.studyLoanWithholding);
+  
+  // Annual liability estimate from the marginal rates, kept alongside withholding for comparison.
+  // Foreign residents and working holiday makers don't pay the Medicare levy or surcharge.
+  const isResident = residency === 'resident';
+  const annualAssessableIncome = Math.max(0, annualTaxableIncome - annualDeductions);
+  const annualGrossTax = calculateTax(annualAssessableIncome, getTaxBrackets(rules, residency, inputs.tfnProvided));
+  
+  // Tax offsets are only available to residents who have provided a TFN
+  const annualOffsets = isResident && inputs.tfnProvided
+    ? calculateTaxOffsets(
+        rules,
+        annualAssessableIncome,
+        annualAssessableIncome + annualReportableSuper,
+        annualGrossTax,
+        household.hasSpouse,
+        rule => rule.id !== 'seniorPensioner' || inputs.isSeniorOrPensioner
+      )
+    : [];
+  const annualTotalOffsets = annualOffsets.reduce((sum, offset) => sum + offset.amount, 0);
+  const annualTax = annualGrossTax - annualTotalOffsets;
+  const annualMedicareLevy = isResident
+    ? calculateMedicareLevy(annualAssessableIncome, rules, household, medicareExemption)
+    : 0;
+  const annualMedicareLevySurcharge = isResident ? calculateMedicareLevySurcharge(
+    annualAssessableIncome + annualReportableSuper,
+    rules,
+    inputs.hasPrivateHealthInsurance,
+    household,
+    medicareExemption
+  ) : 0;
+  const annualTotalMedicareCharges = annualMedicareLevy + annualMedicareLevySurcharge;
+  const annualStudyLoanRepayment = inputs.hasStudyLoan
+    ? calculateStudyLoanRepayment(annualAssessableIncome + annualReportableSuper, rules)
+    : 0;
+  const annualLiability = annualTax + annualTotalMedicareCharges + annualStudyLoanRepayment;
+  const annualTotalWithheld = annualWithholding + annualStudyLoanWithholding;
+  
+  // Concessional contributions tracked against the annual cap
+  const concessionalCap = rules.super.concessionalCap;
+  const annualConcessionalContributions = sumPayRuns(payRuns, run => run.superannuation);
+  const ytdConcessionalContributions = sumPayRuns(ytdPayRuns, run => run.superannuation);
+  
+  // Leave accrues on ordinary hours, including paid leave. Days of leave per year are spread
+  // over a 52-week year of 5-day weeks; long service leave is weeks per year of service.
+  const annualLeaveDays = isCasual ? 0 : parseFloat(inputs.annualLeaveDays) || 0;
+  const personalLeaveDays = isCasual ? 0 : parseFloat(inputs.personalLeaveDays) || 0;
+  const longServiceLeaveRule = longServiceLeaveRules[inputs.longServiceLeaveState as AustralianState];
+  const leaveAccrued: Record<LeaveType, number> = {
+    annual: ordinaryHours * annualLeaveDays / 260,
+    personal: ordinaryHours * personalLeaveDays / 260,
+    longService: ordinaryHours * longServiceLeaveRule.weeksPerYear / 52
+  };
+  const openingLeave: Record<LeaveType, number> = {
+    annual: parseFloat(inputs.openingAnnualLeave) || 0,
+    personal: parseFloat(inputs.openingPersonalLeave) || 0,
+    longService: parseFloat(inputs.openingLongServiceLeave) || 0
+  };
+  const leave = Object.fromEntries((Object.keys(leaveAccrued) as LeaveType[]).map(type => [type, {
+    opening: openingLeave[type],
+    accrued: leaveAccrued[type],
+    taken: leaveTaken[type],
+    closing: openingLeave[type] + leaveAccrued[type] - leaveTaken[type]
+  }])) as Record<LeaveType, LeaveBalance>;
+  const yearsOfService = Math.max(0, (payDate.getTime() - employmentStart.getTime()) / (1000 * 60 * 60 * 24 * 365.25));
+  
+  // Calculate remaining YTD figures
+  const ytdNet = sumPayRuns(ytdPayRuns, run => run.netPay);
+  const ytdPostTaxDeductions = sumPayRuns(ytdPayRuns, run => run.totalPostTaxDeductions);
+  const ytdTakeHome = ytdNet - ytdPostTaxDeductions;
+  const ytdSuper = ytdConcessionalContributions;
+
+  return {
+    rules,
+    employmentType,
+    casualLoading,
+    earningsLines,
+    usesTimesheet,
+    leaveLoading,
+    ordinaryTimeEarnings,
+    nonTaxableAllowances,
+    grossPay,
+    preTaxDeductions,
+    totalPreTaxDeductions,
+    taxableIncome,
+    withholding,
+    oneOffWithholding,
+    withholdingScale,
+    residencyStatus: residency,
+    medicareExemption,
+    isFamily: isFamily(household),
+    studyLoanWithholding,
+    netIncome: netPay,
+    postTaxDeductions,
+    totalPostTaxDeductions,
+    takeHomePay,
+    superGuarantee,
+    superSalarySacrifice,
+    superannuation,
+    maximumContributionBase: contributionBase,
+    superGuaranteeCapped: superGuarantee < ordinaryTimeEarnings * superRate,
+    superContributions: buildSuperContributions(payRuns, payDate),
+    paydaySuper: payDate >= paydaySuperStart,
+    concessionalContributions: {
+      cap: concessionalCap,
+      annual: annualConcessionalContributions,
+      ytd: ytdConcessionalContributions,
+      remaining: Math.max(0, concessionalCap - annualConcessionalContributions)
+    },
+    leave,
+    longServiceLeaveRule,
+    yearsOfService,
+    hoursWorked: earningsLines.reduce((sum, line) => sum + line.hours, 0),
+    hourlyRate,
+    annualLiability: {
+      grossTax: annualGrossTax,
+      offsets: annualOffsets,
+      totalOffsets: annualTotalOffsets,
+      tax: annualTax,
+      medicareLevy: annualMedicareLevy,
+      medicareLevySurcharge: annualMedicareLevySurcharge,
+      totalMedicareCharges: annualTotalMedicareCharges,
+      studyLoanRepayment: annualStudyLoanRepayment,
+      deductions: annualDeductions,
+      taxableIncome: annualAssessableIncome,
+      total: annualLiability,
+      withholding: annualTotalWithheld,
+      difference: annualTotalWithheld - annualLiability
+    },
+    ytd: {
+      gross: ytdGross,
+      ordinaryTimeEarnings: ytdOrdinaryTimeEarnings,
+      preTaxDeductions: ytdPreTaxDeductions,
+      taxableIncome: ytdTaxableIncome,
+      withholding: ytdWithholding,
+      studyLoanWithholding: ytdStudyLoanWithholding,
+      net: ytdNet,
+      postTaxDeductions: ytdPostTaxDeductions,
+      takeHome: ytdTakeHome,
+      super: ytdSuper
+    },
+    periodsPerYear,
+    periodsToDate,
+    payPeriods,
+    payRuns,
+    currentPeriod,
+    proRataBasis,
+    nextPayDate,
+    netToGross: null,
+    finalPay: null,
+    salaryChange: salaryRates.find(rate => rate.from && rate.from > currentPeriod.start && rate.from <= currentPeriod.end) || null,
+    hasExtraPay,
+    extraPayWithholding,
+    effectiveAnnualSalary,
+    fte
+  };
+};
+
+// Reverse mode - finds the lowest annual salary (or casual hourly rate) to the cent whose payslip
+// reaches the target net or take-home pay. Pay isn't monotonic in the rate - it drops back at each
+// whole-dollar withholding step - but it never rises faster than gross pay. Stepping up from zero by
+// the rate that would close the gap if none of it were withheld can't pass the first rate that
+// reaches the target, and the gap shrinks by the marginal rate each step. A target that pay stops
+// moving towards, such as take-home pay under a 100% deduction, is a targetPay field error.
+const solveNetToGross = (inputs: InputState, rules: TaxRulesPack): CalculationResults => {
+  const measure = inputs.targetMeasure as TargetMeasure;
+  const field = inputs.employmentType === 'casual' ? 'casualHourlyRate' : 'annualSalary';
+  const target = parseFloat(inputs.targetPay) || 0;
+  const calculateAt = (cents: number): CalculationResults => calculatePayslip({ ...inputs, [field]: (cents / 100).toFixed(2) }, rules);
+  const payOf = (results: CalculationResults): number => measure === 'takeHome' ? results.takeHomePay : results.netIncome;
+
+  // Gross pay is linear in the rate, so two points give its slope per cent
+  const sampleCents = field === 'annualSalary' ? 10000000 : 5000;
+  const grossPerCent = (calculateAt(sampleCents).grossPay - calculateAt(0).grossPay) / sampleCents;
+  const maxCents = 10000000000;
+
+  let cents = 0;
+  let results = calculateAt(cents);
+  for (let step = 0; payOf(results) < target && grossPerCent > 0 && cents < maxCents && step < 1000; step++) {
+    cents += Math.max(1, Math.floor((target - payOf(results)) / grossPerCent));
+    const next = calculateAt(cents);
+    // Withholding rounds to whole dollars, so pay can stall over a few dollars of gross but not $10
+    const stalled = payOf(next) <= payOf(results) && next.grossPay - results.grossPay >= 10;
+    results = next;
+    if (stalled) {
+      break;
+    }
+  }
+  if (payOf(results) < target) {
+    throw new PayslipInputError({ targetPay: `No ${field === 'annualSalary' ? 'salary' : 'hourly rate'} reaches this pay - check the hours and deductions` });
+  }
+  // Cent rounding in the forward calculation can leave the step a cent or two high
+  while (cents > 0 && payOf(calculateAt(cents - 1)) >= target) {
+    cents -= 1;
+    results = calculateAt(cents);
+  }
+
+  const rate = cents / 100;
+  const achieved = payOf(results);
+  return {
+    ...results,
+    netToGross: { measure, field, target, rate, achieved, difference: achieved - target }
+  };
+};
+
+const getCompletedYears = (from: Date, to: Date): number => {
+  const years = to.getFullYear() - from.getFullYear();
+  const anniversary = new Date(to.getFullYear(), from.getMonth(), from.getDate());
+  return Math.max(0, to < anniversary ? years - 1 : years);
+};
+
+// Final pay on termination - unused leave (Schedule 7), the tax-free part of a genuine redundancy
+// payment, and employment termination payments (Schedule 11). Unused leave is paid at the base rate
+// without casual loading and isn't ordinary time earnings, so no super applies.
+const calculateFinalPay = (inputs: InputState, results: CalculationResults): FinalPayResult => {
+  const reason = inputs.terminationReason as TerminationReason;
+  const rules = results.rules.termination;
+  const employmentStart = parseDate(inputs.employmentStartDate);
+  const employmentEnd = parseDate(inputs.employmentEndDate);
+  const completedYears = getCompletedYears(employmentStart, employmentEnd);
+  const dateOfBirth = inputs.dateOfBirth ? parseDate(inputs.dateOfBirth) : null;
+  const age = dateOfBirth ? getCompletedYears(dateOfBirth, employmentEnd) : null;
+  const preservationAge = dateOfBirth ? preservationAges.find(p => dateOfBirth < p.bornBefore)?.age ?? 60 : null;
+  const isResident = results.residencyStatus === 'resident';
+  const medicare = isResident ? results.rules.medicareLevy.rate : 0;
+  const concessional = reason !== 'resignation';
+  const flatRate = terminationWithholdingRates.concessionalLeave + medicare;
+  
+  // Marginal method - the payment is spread over 52 weeks on top of normal weekly earnings
+  const weeklyEarnings = results.taxableIncome / getPayFrequencyRule(inputs.payFrequency).weeksPerPeriod;
+  const withholdAtMarginalRates = (amount: number): number => {
+    if (results.withholdingScale === 'workingHolidayMaker') {
+      return calculateWorkingHolidayMakerWithholding(amount, results.ytd.taxableIncome, results.rules);
+    }
+    const scale = results.withholdingScale;
+    return calculateOneOffWithholding(
+      amount,
+      52,
+      weeklyEarnings,
+      earnings => calculateWithholding(earnings, 'weekly', results.rules, scale, results.residencyStatus),
+      terminationWithholdingRates.etpAboveCap + medicare
+    );
+  };
+  
+  const lines: TerminationPaymentLine[] = [];
+  const leaveRate = results.hourlyRate / (1 + results.casualLoading);
+  
+  // Unused annual leave and loading, assumed to have accrued after 17 August 1993
+  const annualLeavePay = Math.max(0, results.leave.annual.closing) * leaveRate;
+  const annualLeaveLoading = annualLeavePay * (parseFloat(inputs.leaveLoading) || 0) / 100;
+  [
+    { id: 'annualLeave', label: 'Unused annual leave', amount: annualLeavePay },
+    { id: 'annualLeaveLoading', label: 'Unused annual leave loading', amount: annualLeaveLoading }
+  ].filter(line => line.amount > 0).forEach(line => lines.push({
+    ...line,
+    taxFree: 0,
+    withholding: concessional ? Math.round(line.amount * flatRate) : withholdAtMarginalRates(line.amount)
+  }));
+  
+  // Unused long service leave, once entitled or where pro-rata leave is payable. The balance is
+  // split across the accrual periods by days of service in each.
+  const longServiceLeavePayable = results.yearsOfService >= results.longServiceLeaveRule.entitlementYears
+    || inputs.payProRataLongServiceLeave;
+  const longServiceLeavePay = longServiceLeavePayable ? Math.max(0, results.leave.longService.closing) * leaveRate : 0;
+  const serviceDays = Math.max(1, employmentEnd.getTime() - employmentStart.getTime());
+  longServiceLeavePeriods.forEach(period => {
+    const from = period.from && period.from > employmentStart ? period.from : employmentStart;
+    const to = period.to && period.to < employmentEnd ? period.to : employmentEnd;
+    const amount = longServiceLeavePay * Math.max(0, to.getTime() - from.getTime()) / serviceDays;
+    if (amount <= 0) {
+      return;
+    }
+    // Only 5% of pre-1978 leave is assessable; 1978-1993 leave and leave paid on a genuine
+    // redundancy or invalidity are taxed at the concessional rate
+    const withholding = period.id === 'pre1978'
+      ? withholdAtMarginalRates(amount * 0.05)
+      : period.id === 'from1978To1993' || concessional
+        ? Math.round(amount * flatRate)
+        : withholdAtMarginalRates(amount);
+    lines.push({ id: period.id, label: period.label, amount, taxFree: 0, withholding });
+  });
+  
+  // Genuine redundancy payments are tax-free up to the base limit plus an amount per completed
+  // year of service, and payment in lieu of notice counts towards them. The excess is an ETP.
+  const redundancyTaxFreeLimit = rules.redundancyBase + rules.redundancyPerYear * completedYears;
+  const redundancyPayment = parseFloat(inputs.redundancyPayment) || 0;
+  const paymentInLieuOfNotice = parseFloat(inputs.paymentInLieuOfNotice) || 0;
+  const etps: Array<{ id: string; label: string; amount: number; taxFree: number; excluded: boolean }> = [];
+  if (reason === 'genuineRedundancy') {
+    const total = redundancyPayment + paymentInLieuOfNotice;
+    const taxFree = Math.min(total, redundancyTaxFreeLimit);
+    etps.push({ id: 'redundancy', label: 'Genuine redundancy payment', amount: total, taxFree, excluded: true });
+  } else {
+    etps.push(
+      { id: 'redundancy', label: 'Redundancy payment', amount: redundancyPayment, taxFree: 0, excluded: reason === 'invalidity' },
+      { id: 'paymentInLieuOfNotice', label: 'Payment in lieu of notice', amount: paymentInLieuOfNotice, taxFree: 0, excluded: reason === 'invalidity' }
+    );
+  }
+  etps.push({
+    id: 'otherTerminationPayment',
+    label: 'Other termination payment',
+    amount: parseFloat(inputs.otherTerminationPayment) || 0,
+    taxFree: 0,
+    excluded: reason !== 'resignation'
+  });
+  
+  // ETPs are withheld at the preservation age rate up to the cap - the ETP cap for excluded payments,
+  // or the smaller of that and the whole-of-income cap less other taxable income for the rest.
+  // Anything over the cap is withheld at the top rate.
+  const wholeOfIncomeCap = Math.max(0, rules.wholeOfIncomeCap - results.annualLiability.taxableIncome);
+  const capRate = (preservationAge !== null && age !== null && age >= preservationAge
+    ? terminationWithholdingRates.etpPreservationAge
+    : terminationWithholdingRates.etpUnderPreservationAge) + medicare;
+  let etpPaid = 0;
+  etps.filter(etp => etp.amount > 0).forEach(etp => {
+    const taxable = etp.amount - etp.taxFree;
+    const cap = etp.excluded ? rules.etpCap : Math.min(rules.etpCap, wholeOfIncomeCap);
+    const withinCap = Math.min(taxable, Math.max(0, cap - etpPaid));
+    etpPaid += taxable;
+    lines.push({
+      id: etp.id,
+      label: etp.label,
+      amount: etp.amount,
+      taxFree: etp.taxFree,
+      withholding: Math.round(withinCap * capRate + (taxable - withinCap) * (terminationWithholdingRates.etpAboveCap + medicare))
+    });
+  });
+  
+  const gross = lines.reduce((sum, line) => sum + line.amount, 0);
+  const withholding = lines.reduce((sum, line) => sum + line.withholding, 0);
+  return {
+    reason,
+    completedYears,
+    age,
+    preservationAge,
+    redundancyTaxFreeLimit,
+    etpCap: rules.etpCap,
+    lines,
+    gross,
+    taxFree: lines.reduce((sum, line) => sum + line.taxFree, 0),
+    withholding,
+    net: gross - withholding
+  };
+};
+
+// Thrown by computePayslip when the inputs don't pass validateInputs
+export class PayslipInputError extends Error {
+  readonly errors: InputErrors;
+
+  constructor(errors: InputErrors) {
+    super(`Invalid payslip inputs: ${Object.values(errors).join('; ')}`);
+    this.name = 'PayslipInputError';
+    this.errors = errors;
+  }
+}
+
+// Works out a payslip in whichever mode the inputs ask for - gross to net, net to gross or a
+// final pay - using the given rules pack
+export const computePayslip = (input: InputState, rules: TaxRulesPack): CalculationResults => {
+  const errors = validateInputs(input, rules);
+  if (Object.keys(errors).length > 0) {
+    throw new PayslipInputError(errors);
+  }
+
+  if (input.calculatorMode === 'reverse') {
+    return solveNetToGross(input, rules);
+  }
+
+  const payslip = calculatePayslip(input, rules);
+  return input.calculatorMode === 'final' ? { ...payslip, finalPay: calculateFinalPay(input, payslip) } : payslip;
+};
@@ -0,0 +1,163 @@
+import type { CalculationResults, InputState, PayslipDocument, PayslipDocumentLine } from './types';
+import { employmentTypeLabels } from './labels';
+import { formatAbn } from './identifiers';
+import { createPdf, pdfPageSize } from './pdf';
+import type { PdfPage, PdfText } from './pdf';
+
+// Payslip for the current pay period, with a final pay's termination payments added when there is one.
+// Every deduction is listed so gross less deductions is the amount paid.
+export const buildPayslipDocument = (results: CalculationResults, input: InputState): PayslipDocument => {
+  const finalPay = results.finalPay;
+  const earnings: PayslipDocumentLine[] = [
+    ...results.earningsLines.map(line => line.hours > 0
+      ? { label: line.label, amount: line.amount, hours: line.hours, rate: line.rate }
+      : { label: line.label, amount: line.amount }),
+    ...(finalPay?.lines || []).map(line => ({ label: line.label, amount: line.amount }))
+  ];
+
+  const deductions: PayslipDocumentLine[] = [
+    ...results.preTaxDeductions.map(deduction => ({ label: deduction.label, amount: deduction.amount })),
+    { label: 'PAYG withholding', amount: results.withholding },
+    { label: 'PAYG withholding on one-off payments', amount: results.oneOffWithholding },
+    { label: 'Study loan (HELP) withholding', amount: results.studyLoanWithholding },
+    { label: 'PAYG withholding on termination payments', amount: finalPay?.withholding || 0 },
+    ...results.postTaxDeductions.map(deduction => ({ label: deduction.label, amount: deduction.amount }))
+  ].filter(line => line.amount > 0 || line.label === 'PAYG withholding');
+
+  const superContributions: PayslipDocumentLine[] = [
+    { label: 'Super guarantee', amount: results.superGuarantee },
+    { label: 'Salary sacrifice', amount: results.superSalarySacrifice }
+  ].filter(line => line.amount > 0 || line.label === 'Super guarantee');
+
+  const ytd: PayslipDocumentLine[] = [
+    { label: 'Gross pay', amount: results.ytd.gross },
+    { label: 'PAYG withholding', amount: results.ytd.withholding },
+    { label: 'Study loan (HELP) withholding', amount: results.ytd.studyLoanWithholding },
+    { label: 'Deductions', amount: results.ytd.preTaxDeductions + results.ytd.postTaxDeductions },
+    { label: 'Superannuation', amount: results.ytd.super },
+    { label: 'Net pay', amount: results.ytd.takeHome }
+  ].filter(line => line.amount > 0 || line.label !== 'Study loan (HELP) withholding');
+
+  return {
+    employerName: input.employerName.trim(),
+    employerAbn: formatAbn(input.employerAbn),
+    employeeName: input.employeeName.trim(),
+    employmentType: employmentTypeLabels[results.employmentType],
+    periodStart: results.currentPeriod.start,
+    periodEnd: results.currentPeriod.end,
+    payDate: results.currentPeriod.payDate,
+    annualSalary: results.employmentType === 'casual' ? null : results.effectiveAnnualSalary,
+    hourlyRate: results.hourlyRate,
+    hoursWorked: results.hoursWorked,
+    earnings,
+    grossPay: results.grossPay + (finalPay?.gross || 0),
+    deductions,
+    totalDeductions: deductions.reduce((sum, line) => sum + line.amount, 0),
+    netPay: results.takeHomePay + (finalPay?.net || 0),
+    superFundName: input.superFundName.trim(),
+    superContributions,
+    ytd,
+    rulesYear: results.rules.year
+  };
+};
+
+export const formatPayslipAmount = (amount: number): string => {
+  return new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 2 }).format(amount || 0);
+};
+
+export const formatPayslipDate = (date: Date): string => {
+  return date.toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+// Layout for the PDF, in points from the bottom left of an A4 page
+const margin = 50;
+const right = pdfPageSize.width - margin;
+const hoursColumn = right - 190;
+const rateColumn = right - 100;
+const lineHeight = 15;
+
+// Lays the payslip out top to bottom, starting a new page when one fills up
+export const renderPayslipPdf = (document: PayslipDocument): Uint8Array<ArrayBuffer> => {
+  const pages: PdfPage[] = [{ texts: [], rules: [] }];
+  let y = pdfPageSize.height - margin;
+
+  const page = (): PdfPage => pages[pages.length - 1];
+  const text = (item: PdfText): void => {
+    page().texts.push(item);
+  };
+  const advance = (height: number): void => {
+    y -= height;
+    if (y < margin) {
+      pages.push({ texts: [], rules: [] });
+      y = pdfPageSize.height - margin - height;
+    }
+  };
+  const rule = (): void => {
+    page().rules.push({ x1: margin, y1: y + lineHeight - 4, x2: right, y2: y + lineHeight - 4 });
+  };
+  const detail = (label: string, value: string): void => {
+    text({ x: margin, y, text: label, size: 10, grey: 0.4 });
+    text({ x: margin + 120, y, text: value, size: 10 });
+    advance(lineHeight);
+  };
+  const heading = (title: string): void => {
+    advance(lineHeight);
+    text({ x: margin, y, text: title, size: 12, bold: true });
+    advance(lineHeight + 2);
+  };
+  const amountLine = (line: PayslipDocumentLine, bold = false): void => {
+    text({ x: margin, y, text: line.label, size: 10, bold });
+    if (line.hours !== undefined && line.rate !== undefined) {
+      text({ x: hoursColumn, y, text: `${line.hours.toFixed(2)} hrs`, size: 10, align: 'right', grey: 0.4 });
+      text({ x: rateColumn, y, text: `@ ${formatPayslipAmount(line.rate)}`, size: 10, align: 'right', grey: 0.4 });
+    }
+    text({ x: right, y, text: formatPayslipAmount(line.amount), size: 10, bold, align: 'right' });
+    advance(lineHeight);
+  };
+  const total = (label: string, amount: number): void => {
+    rule();
+    amountLine({ label, amount }, true);
+  };
+
+  // Employer and employee details
+  text({ x: margin, y, text: 'Payslip', size: 20, bold: true });
+  text({ x: right, y, text: document.employerName || 'Employer', size: 12, bold: true, align: 'right' });
+  advance(lineHeight);
+  text({ x: right, y, text: document.employerAbn ? `ABN ${document.employerAbn}` : '', size: 10, align: 'right', grey: 0.4 });
+  advance(lineHeight * 2);
+
+  detail('Employee', document.employeeName || '-');
+  detail('Employment type', document.employmentType);
+  detail('Pay period', `${formatPayslipDate(document.periodStart)} - ${formatPayslipDate(document.periodEnd)}`);
+  detail('Pay date', formatPayslipDate(document.payDate));
+  if (document.annualSalary !== null) {
+    detail('Annual salary', formatPayslipAmount(document.annualSalary));
+  }
+  detail('Ordinary hourly rate', formatPayslipAmount(document.hourlyRate));
+  detail('Hours worked', `${document.hoursWorked.toFixed(2)} hrs`);
+
+  heading('Earnings');
+  document.earnings.forEach(line => amountLine(line));
+  total('Gross pay', document.grossPay);
+
+  heading('Deductions');
+  document.deductions.forEach(line => amountLine(line));
+  total('Total deductions', document.totalDeductions);
+
+  advance(lineHeight / 2);
+  text({ x: margin, y, text: 'Net pay', size: 14, bold: true });
+  text({ x: right, y, text: formatPayslipAmount(document.netPay), size: 14, bold: true, align: 'right' });
+  advance(lineHeight);
+
+  heading('Superannuation');
+  detail('Fund', document.superFundName || '-');
+  document.superContributions.forEach(line => amountLine(line));
+
+  heading('Year to date');
+  document.ytd.forEach(line => amountLine(line));
+
+  advance(lineHeight);
+  text({ x: margin, y, text: `Calculated with the ${document.rulesYear} ATO tax tables`, size: 8, grey: 0.5 });
+
+  return createPdf(pages, `Payslip ${document.employeeName} ${formatPayslipDate(document.payDate)}`.replace(/\s+/g, ' '));
+};
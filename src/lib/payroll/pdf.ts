@@ -0,0 +1,113 @@
+import { toPrintableAscii } from './text';
+
+// Minimal PDF writer for single-font text documents - enough for payslips without a PDF library.
+// Uses the standard Helvetica fonts, which every PDF reader has, so nothing is embedded.
+
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+  // Grey level from 0 (black) to 1 (white)
+  grey?: number;
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules: PdfRule[];
+}
+
+// A4 in points, with the origin at the bottom left
+export const pdfPageSize = { width: 595.28, height: 841.89 };
+
+// Advance widths of printable ASCII (32-126) per 1000 units of font size, from the Adobe font metrics
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const helveticaBoldWidths = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// The standard fonts only cover Latin text, so anything outside printable ASCII becomes a question mark
+const toPdfText = (text: string): string => toPrintableAscii(text, '?');
+
+export const measurePdfText = (text: string, size: number, bold = false): number => {
+  const widths = bold ? helveticaBoldWidths : helveticaWidths;
+  const units = Array.from(toPdfText(text)).reduce((sum, char) => sum + widths[char.charCodeAt(0) - 32], 0);
+  return units * size / 1000;
+};
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const escapeString = (text: string): string => toPdfText(text).replace(/[\\()]/g, match => `\\${match}`);
+
+const renderContent = (page: PdfPage): string => {
+  const rules = page.rules.map(rule =>
+    `${formatNumber(rule.x1)} ${formatNumber(rule.y1)} m ${formatNumber(rule.x2)} ${formatNumber(rule.y2)} l S`
+  );
+  const texts = page.texts.map(item => {
+    const x = item.align === 'right' ? item.x - measurePdfText(item.text, item.size, item.bold) : item.x;
+    return [
+      `${formatNumber(item.grey ?? 0)} g`,
+      `BT /${item.bold ? 'F2' : 'F1'} ${formatNumber(item.size)} Tf ${formatNumber(x)} ${formatNumber(item.y)} Td (${escapeString(item.text)}) Tj ET`
+    ].join('\n');
+  });
+  return ['0.5 w 0.7 G', ...rules, ...texts].join('\n');
+};
+
+// Builds the PDF file. Every object is ASCII, so string lengths are byte offsets.
+export const createPdf = (pages: PdfPage[], title: string): Uint8Array<ArrayBuffer> => {
+  const objects: string[] = [];
+  const addObject = (body: string): number => objects.push(body);
+
+  const catalog = addObject('');
+  const pageTree = addObject('');
+  const regular = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const bold = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const info = addObject(`<< /Title (${escapeString(title)}) /Producer (Bradmode Tools) >>`);
+
+  const pageRefs = pages.map(page => {
+    const content = renderContent(page);
+    const contentRef = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return addObject([
+      `<< /Type /Page /Parent ${pageTree} 0 R`,
+      `/MediaBox [0 0 ${pdfPageSize.width} ${pdfPageSize.height}]`,
+      `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >>`,
+      `/Contents ${contentRef} 0 R >>`
+    ].join(' '));
+  });
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pageTree} 0 R >>`;
+  objects[pageTree - 1] = `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+
+  let file = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = file.length;
+    file += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  file += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  file += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(file);
+};
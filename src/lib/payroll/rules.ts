@@ -0,0 +1,744 @@
+import type {
+  AustralianState,
+  CoefficientScale,
+  InputState,
+  LongServiceLeavePeriod,
+  LongServiceLeaveRule,
+  PayrollTaxRule,
+  TaxBracket,
+  TaxOffsetRule,
+  TaxRulesPack,
+  WithholdingCoefficient,
+  WithholdingScale
+} from './types';
+import { withholdingScaleLabels } from './labels';
+import { getFinancialYearStart, parseDate } from './schedule';
+
+// ATO publications the rules packs are taken from
+const atoSources = {
+  residentRates: { title: 'Tax rates - Australian residents', url: 'https://www.ato.gov.au/tax-rates-and-codes/tax-rates-australian-residents' },
+  foreignResidentRates: { title: 'Tax rates - foreign residents', url: 'https://www.ato.gov.au/tax-rates-and-codes/tax-rates-foreign-residents' },
+  workingHolidayMakerRates: { title: 'Tax rates - working holiday makers', url: 'https://www.ato.gov.au/tax-rates-and-codes/tax-rates-working-holiday-makers' },
+  schedule1: { title: 'Schedule 1 - Statement of formulas for calculating amounts to be withheld', url: 'https://www.ato.gov.au/tax-rates-and-codes/payg-withholding-schedule-1-statement-of-formulas-for-calculating-amounts-to-be-withheld' },
+  studyLoans: { title: 'Study and training support loans rates and repayment thresholds', url: 'https://www.ato.gov.au/tax-rates-and-codes/study-and-training-support-loans-rates-and-repayment-thresholds' },
+  medicareLevy: { title: 'Medicare levy reduction for low-income earners', url: 'https://www.ato.gov.au/individuals-and-families/medicare-and-private-health-insurance/medicare-levy/medicare-levy-reduction/medicare-levy-reduction-for-low-income-earners' },
+  medicareLevySurcharge: { title: 'Medicare levy surcharge income, thresholds and rates', url: 'https://www.ato.gov.au/individuals-and-families/medicare-and-private-health-insurance/medicare-levy-surcharge/medicare-levy-surcharge-income-thresholds-and-rates' },
+  superannuation: { title: 'Key superannuation rates and thresholds', url: 'https://www.ato.gov.au/tax-rates-and-codes/key-superannuation-rates-and-thresholds' }
+};
+
+// Schedule 1 coefficients from 13 October 2020
+const withholdingCoefficients2020: Record<CoefficientScale, WithholdingCoefficient[]> = {
+  noTaxFreeThreshold: [
+    { max: 88, a: 0.19, b: 0.19 },
+    { max: 371, a: 0.2348, b: 3.9639 },
+    { max: 515, a: 0.219, b: -1.9003 },
+    { max: 932, a: 0.3477, b: 64.4297 },
+    { max: 1957, a: 0.345, b: 61.9132 },
+    { max: 3111, a: 0.39, b: 150.0093 },
+    { max: Infinity, a: 0.47, b: 398.9324 }
+  ],
+  taxFreeThreshold: [
+    { max: 359, a: 0, b: 0 },
+    { max: 438, a: 0.19, b: 68.3462 },
+    { max: 548, a: 0.29, b: 112.1942 },
+    { max: 721, a: 0.21, b: 68.3465 },
+    { max: 865, a: 0.219, b: 74.8365 },
+    { max: 1282, a: 0.3477, b: 186.2119 },
+    { max: 2307, a: 0.345, b: 182.7504 },
+    { max: 3461, a: 0.39, b: 286.5965 },
+    { max: Infinity, a: 0.47, b: 563.5196 }
+  ],
+  foreignResident: [
+    { max: 2307, a: 0.325, b: 0.325 },
+    { max: 3461, a: 0.37, b: 104.1348 },
+    { max: Infinity, a: 0.45, b: 381.0288 }
+  ],
+  fullMedicareExemption: [
+    { max: 359, a: 0, b: 0 },
+    { max: 721, a: 0.19, b: 68.3462 },
+    { max: 865, a: 0.199, b: 74.8365 },
+    { max: 1282, a: 0.3277, b: 186.2119 },
+    { max: 2307, a: 0.325, b: 182.7504 },
+    { max: 3461, a: 0.37, b: 286.5965 },
+    { max: Infinity, a: 0.45, b: 563.5196 }
+  ],
+  halfMedicareExemption: [
+    { max: 359, a: 0, b: 0 },
+    { max: 438, a: 0.19, b: 68.3462 },
+    { max: 548, a: 0.24, b: 90.2712 },
+    { max: 721, a: 0.2, b: 68.3462 },
+    { max: 865, a: 0.209, b: 74.8365 },
+    { max: 1282, a: 0.3377, b: 186.2119 },
+    { max: 2307, a: 0.335, b: 182.7504 },
+    { max: 3461, a: 0.38, b: 286.5965 },
+    { max: Infinity, a: 0.46, b: 563.5196 }
+  ]
+};
+
+// Schedule 1 coefficients from 1 July 2024
+const withholdingCoefficients2024: Record<CoefficientScale, WithholdingCoefficient[]> = {
+  noTaxFreeThreshold: [
+    { max: 150, a: 0.16, b: 0.16 },
+    { max: 371, a: 0.2117, b: 7.755 },
+    { max: 515, a: 0.189, b: -0.6702 },
+    { max: 932, a: 0.3227, b: 68.2367 },
+    { max: 2246, a: 0.32, b: 65.7202 },
+    { max: 3303, a: 0.39, b: 222.951 },
+    { max: Infinity, a: 0.47, b: 487.2587 }
+  ],
+  taxFreeThreshold: [
+    { max: 361, a: 0, b: 0 },
+    { max: 500, a: 0.16, b: 57.8462 },
+    { max: 625, a: 0.26, b: 107.8462 },
+    { max: 721, a: 0.18, b: 57.8462 },
+    { max: 865, a: 0.189, b: 64.3365 },
+    { max: 1282, a: 0.3227, b: 180.0385 },
+    { max: 2596, a: 0.32, b: 176.5769 },
+    { max: 3653, a: 0.39, b: 358.3077 },
+    { max: Infinity, a: 0.47, b: 650.6154 }
+  ],
+  foreignResident: [
+    { max: 2596, a: 0.3, b: 0.3 },
+    { max: 3653, a: 0.37, b: 181.7308 },
+    { max: Infinity, a: 0.45, b: 474.0385 }
+  ],
+  fullMedicareExemption: [
+    { max: 361, a: 0, b: 0 },
+    { max: 721, a: 0.16, b: 57.8462 },
+    { max: 865, a: 0.169, b: 64.3365 },
+    { max: 1282, a: 0.3027, b: 180.0385 },
+    { max: 2596, a: 0.3, b: 176.5769 },
+    { max: 3653, a: 0.37, b: 358.3077 },
+    { max: Infinity, a: 0.45, b: 650.6154 }
+  ],
+  halfMedicareExemption: [
+    { max: 361, a: 0, b: 0 },
+    { max: 500, a: 0.16, b: 57.8462 },
+    { max: 625, a: 0.21, b: 82.8462 },
+    { max: 721, a: 0.17, b: 57.8462 },
+    { max: 865, a: 0.179, b: 64.3365 },
+    { max: 1282, a: 0.3127, b: 180.0385 },
+    { max: 2596, a: 0.31, b: 176.5769 },
+    { max: 3653, a: 0.38, b: 358.3077 },
+    { max: Infinity, a: 0.46, b: 650.6154 }
+  ]
+};
+
+const lowIncomeTaxOffset: TaxOffsetRule = {
+  id: 'lowIncome',
+  label: 'Low Income Tax Offset',
+  max: 700,
+  incomeTest: 'taxable',
+  phaseOuts: [
+    { from: 37500, to: 45000, rate: 0.05 },
+    { from: 45000, to: 66667, rate: 0.015 }
+  ]
+};
+
+const seniorPensionerTaxOffset2024: TaxOffsetRule = {
+  id: 'seniorPensioner',
+  label: 'Senior and Pensioner Tax Offset',
+  max: 2230,
+  incomeTest: 'rebate',
+  phaseOuts: [{ from: 34919, to: 52759, rate: 0.125 }],
+  couple: {
+    max: 1602,
+    phaseOuts: [{ from: 30994, to: 43810, rate: 0.125 }]
+  }
+};
+
+const residentTaxBrackets2024: TaxBracket[] = [
+  { min: 0, max: 18200, rate: 0, offset: 0 },
+  { min: 18201, max: 45000, rate: 0.16, offset: 0 },
+  { min: 45001, max: 135000, rate: 0.30, offset: 4288 },
+  { min: 135001, max: 190000, rate: 0.37, offset: 31288 },
+  { min: 190001, max: Infinity, rate: 0.45, offset: 51638 }
+];
+
+const foreignResidentTaxBrackets2024: TaxBracket[] = [
+  { min: 1, max: 135000, rate: 0.30, offset: 0 },
+  { min: 135001, max: 190000, rate: 0.37, offset: 40500 },
+  { min: 190001, max: Infinity, rate: 0.45, offset: 60850 }
+];
+
+// Working holiday makers pay 15% on the first $45,000 regardless of residency
+const workingHolidayMakerTaxBrackets2024: TaxBracket[] = [
+  { min: 1, max: 45000, rate: 0.15, offset: 0 },
+  { min: 45001, max: 135000, rate: 0.30, offset: 6750 },
+  { min: 135001, max: 190000, rate: 0.37, offset: 33750 },
+  { min: 190001, max: Infinity, rate: 0.45, offset: 54100 }
+];
+
+// Top marginal rate applied to all income when no TFN is provided
+const noTfnTaxBrackets: TaxBracket[] = [{ min: 1, max: Infinity, rate: 0.45, offset: 0 }];
+
+// State revenue office pages the payroll tax rules are taken from
+const payrollTaxSources: Record<AustralianState, { title: string; url: string }> = {
+  NSW: { title: 'Revenue NSW - Payroll tax', url: 'https://www.revenue.nsw.gov.au/taxes-duties-levies-royalties/payroll-tax' },
+  VIC: { title: 'State Revenue Office Victoria - Payroll tax', url: 'https://www.sro.vic.gov.au/payroll-tax' },
+  QLD: { title: 'Queensland Revenue Office - Payroll tax', url: 'https://qro.qld.gov.au/payroll-tax/' },
+  WA: { title: 'WA Department of Finance - Payroll tax', url: 'https://www.wa.gov.au/organisation/department-of-finance/payroll-tax' },
+  SA: { title: 'RevenueSA - Payroll tax', url: 'https://www.revenuesa.sa.gov.au/payrolltax' },
+  TAS: { title: 'State Revenue Office Tasmania - Payroll tax', url: 'https://www.sro.tas.gov.au/payroll-tax' },
+  ACT: { title: 'ACT Revenue Office - Payroll tax', url: 'https://www.revenue.act.gov.au/payroll-tax' },
+  NT: { title: 'Territory Revenue Office - Payroll tax', url: 'https://treasury.nt.gov.au/dtf/territory-revenue-office/payroll-tax' }
+};
+
+// Brackets for `rate` on wages over a deduction of the threshold. Where the deduction phases out
+// it falls evenly from `from` to nothing at `to`, and above `to` the top rate applies to all wages.
+const payrollTaxBrackets = (
+  threshold: number,
+  rate: number,
+  phaseOut?: { from: number; to: number; topRate?: number }
+): PayrollTaxRule['brackets'] => {
+  if (!phaseOut) {
+    return [{ min: threshold, rate, base: 0 }];
+  }
+  const topRate = phaseOut.topRate ?? rate;
+  return [
+    ...(phaseOut.from > threshold ? [{ min: threshold, rate, base: 0 }] : []),
+    { min: phaseOut.from, rate: rate * (1 + threshold / (phaseOut.to - phaseOut.from)), base: rate * (phaseOut.from - threshold) },
+    { min: phaseOut.to, rate: topRate, base: topRate * phaseOut.to }
+  ];
+};
+
+// The Victorian deduction phases out between $3 and $5 million of wages
+const victorianPayrollTax = (threshold: number): PayrollTaxRule => ({
+  threshold,
+  rate: 0.0485,
+  brackets: payrollTaxBrackets(threshold, 0.0485, { from: 3000000, to: 5000000 }),
+  source: payrollTaxSources.VIC
+});
+
+const payrollTax2023: Record<AustralianState, PayrollTaxRule> = {
+  NSW: { threshold: 1200000, rate: 0.0545, brackets: payrollTaxBrackets(1200000, 0.0545), source: payrollTaxSources.NSW },
+  VIC: victorianPayrollTax(700000),
+  // The deduction falls by $1 for every $4 of wages over the threshold, and the rate rises to
+  // 4.95% once it's gone
+  QLD: {
+    threshold: 1300000,
+    rate: 0.0475,
+    brackets: payrollTaxBrackets(1300000, 0.0475, { from: 1300000, to: 6500000, topRate: 0.0495 }),
+    source: payrollTaxSources.QLD
+  },
+  // The deduction falls by $2 for every $13 of wages over the threshold
+  WA: {
+    threshold: 1000000,
+    rate: 0.055,
+    brackets: payrollTaxBrackets(1000000, 0.055, { from: 1000000, to: 7500000 }),
+    source: payrollTaxSources.WA
+  },
+  // Between $1.5 and $1.7 million the rate rises until tax is 4.95% of wages over $600,000
+  SA: {
+    threshold: 1500000,
+    rate: 0.0495,
+    brackets: [
+      { min: 1500000, rate: 0.0495 * 1100000 / 200000, base: 0 },
+      { min: 1700000, rate: 0.0495, base: 0.0495 * 1100000 }
+    ],
+    source: payrollTaxSources.SA
+  },
+  // 4% on wages from the threshold to $2 million, then 6.1%
+  TAS: {
+    threshold: 1250000,
+    rate: 0.061,
+    brackets: [
+      { min: 1250000, rate: 0.04, base: 0 },
+      { min: 2000000, rate: 0.061, base: 0.04 * 750000 }
+    ],
+    source: payrollTaxSources.TAS
+  },
+  ACT: { threshold: 2000000, rate: 0.0685, brackets: payrollTaxBrackets(2000000, 0.0685), source: payrollTaxSources.ACT },
+  // The deduction falls by $1 for every $4 of wages over the threshold
+  NT: {
+    threshold: 1500000,
+    rate: 0.055,
+    brackets: payrollTaxBrackets(1500000, 0.055, { from: 1500000, to: 7500000 }),
+    source: payrollTaxSources.NT
+  }
+};
+
+// The Victorian threshold rose to $900,000 on 1 July 2024 and $1 million on 1 January 2025,
+// an annual threshold of $950,000
+const payrollTax2024: Record<AustralianState, PayrollTaxRule> = { ...payrollTax2023, VIC: victorianPayrollTax(950000) };
+
+const payrollTax2025: Record<AustralianState, PayrollTaxRule> = { ...payrollTax2023, VIC: victorianPayrollTax(1000000) };
+
+const taxRulesPacks: TaxRulesPack[] = [
+  {
+    year: '2023-24',
+    effectiveFrom: '2023-07-01',
+    sources: [
+      atoSources.residentRates,
+      atoSources.foreignResidentRates,
+      atoSources.workingHolidayMakerRates,
+      { ...atoSources.schedule1, title: `${atoSources.schedule1.title} (from 13 October 2020)` },
+      atoSources.studyLoans,
+      atoSources.medicareLevy,
+      atoSources.medicareLevySurcharge,
+      atoSources.superannuation
+    ],
+    taxBrackets: {
+      resident: [
+        { min: 0, max: 18200, rate: 0, offset: 0 },
+        { min: 18201, max: 45000, rate: 0.19, offset: 0 },
+        { min: 45001, max: 120000, rate: 0.325, offset: 5092 },
+        { min: 120001, max: 180000, rate: 0.37, offset: 29467 },
+        { min: 180001, max: Infinity, rate: 0.45, offset: 51667 }
+      ],
+      foreignResident: [
+        { min: 1, max: 120000, rate: 0.325, offset: 0 },
+        { min: 120001, max: 180000, rate: 0.37, offset: 39000 },
+        { min: 180001, max: Infinity, rate: 0.45, offset: 61200 }
+      ],
+      workingHolidayMaker: [
+        { min: 1, max: 45000, rate: 0.15, offset: 0 },
+        { min: 45001, max: 120000, rate: 0.325, offset: 6750 },
+        { min: 120001, max: 180000, rate: 0.37, offset: 31125 },
+        { min: 180001, max: Infinity, rate: 0.45, offset: 53325 }
+      ],
+      noTfn: noTfnTaxBrackets
+    },
+    taxOffsets: [
+      lowIncomeTaxOffset,
+      {
+        id: 'seniorPensioner',
+        label: 'Senior and Pensioner Tax Offset',
+        max: 2230,
+        incomeTest: 'rebate',
+        phaseOuts: [{ from: 32279, to: 50119, rate: 0.125 }],
+        couple: {
+          max: 1602,
+          phaseOuts: [{ from: 28974, to: 41790, rate: 0.125 }]
+        }
+      }
+    ],
+    medicareLevy: {
+      rate: 0.02,
+      single: { lower: 26000, upper: 32500 },
+      singleSenior: { lower: 41089, upper: 51361 },
+      family: { lower: 43846, upper: 54807 },
+      familySenior: { lower: 57198, upper: 71497 },
+      perChild: 4027
+    },
+    medicareLevySurcharge: {
+      single: [
+        { min: 0, max: 93000, rate: 0 },
+        { min: 93001, max: 108000, rate: 0.01 },
+        { min: 108001, max: 144000, rate: 0.0125 },
+        { min: 144001, max: Infinity, rate: 0.015 }
+      ],
+      family: [
+        { min: 0, max: 186000, rate: 0 },
+        { min: 186001, max: 216000, rate: 0.01 },
+        { min: 216001, max: 288000, rate: 0.0125 },
+        { min: 288001, max: Infinity, rate: 0.015 }
+      ],
+      perChild: 1500
+    },
+    studyLoan: {
+      system: 'percentage',
+      thresholds: [
+        { min: 51550, rate: 0.01, base: 0 },
+        { min: 59519, rate: 0.02, base: 0 },
+        { min: 63090, rate: 0.025, base: 0 },
+        { min: 66876, rate: 0.03, base: 0 },
+        { min: 70889, rate: 0.035, base: 0 },
+        { min: 75141, rate: 0.04, base: 0 },
+        { min: 79650, rate: 0.045, base: 0 },
+        { min: 84430, rate: 0.05, base: 0 },
+        { min: 89495, rate: 0.055, base: 0 },
+        { min: 94866, rate: 0.06, base: 0 },
+        { min: 100558, rate: 0.065, base: 0 },
+        { min: 106591, rate: 0.07, base: 0 },
+        { min: 112986, rate: 0.075, base: 0 },
+        { min: 119765, rate: 0.08, base: 0 },
+        { min: 126951, rate: 0.085, base: 0 },
+        { min: 134569, rate: 0.09, base: 0 },
+        { min: 142643, rate: 0.095, base: 0 },
+        { min: 151201, rate: 0.10, base: 0 }
+      ]
+    },
+    withholding: {
+      coefficients: withholdingCoefficients2020,
+      noTfn: { resident: 0.47, foreignResident: 0.45 }
+    },
+    super: {
+      guaranteeRate: 0.11,
+      maximumContributionBase: 62270,
+      contributionBasePeriod: 'quarter',
+      concessionalCap: 27500
+    },
+    termination: { etpCap: 235000, wholeOfIncomeCap: 180000, redundancyBase: 11985, redundancyPerYear: 5994 },
+    payrollTax: payrollTax2023
+  },
+  {
+    year: '2024-25',
+    effectiveFrom: '2024-07-01',
+    sources: [
+      atoSources.residentRates,
+      atoSources.foreignResidentRates,
+      atoSources.workingHolidayMakerRates,
+      { ...atoSources.schedule1, title: `${atoSources.schedule1.title} (from 1 July 2024)` },
+      atoSources.studyLoans,
+      atoSources.medicareLevy,
+      atoSources.medicareLevySurcharge,
+      atoSources.superannuation
+    ],
+    taxBrackets: {
+      resident: residentTaxBrackets2024,
+      foreignResident: foreignResidentTaxBrackets2024,
+      workingHolidayMaker: workingHolidayMakerTaxBrackets2024,
+      noTfn: noTfnTaxBrackets
+    },
+    taxOffsets: [
+      lowIncomeTaxOffset,
+      seniorPensionerTaxOffset2024
+    ],
+    medicareLevy: {
+      rate: 0.02,
+      single: { lower: 27222, upper: 34027 },
+      singleSenior: { lower: 43020, upper: 53775 },
+      family: { lower: 45907, upper: 57383 },
+      familySenior: { lower: 59886, upper: 74857 },
+      perChild: 4216
+    },
+    medicareLevySurcharge: {
+      single: [
+        { min: 0, max: 97000, rate: 0 },
+        { min: 97001, max: 113000, rate: 0.01 },
+        { min: 113001, max: 151000, rate: 0.0125 },
+        { min: 151001, max: Infinity, rate: 0.015 }
+      ],
+      family: [
+        { min: 0, max: 194000, rate: 0 },
+        { min: 194001, max: 226000, rate: 0.01 },
+        { min: 226001, max: 302000, rate: 0.0125 },
+        { min: 302001, max: Infinity, rate: 0.015 }
+      ],
+      perChild: 1500
+    },
+    studyLoan: {
+      system: 'percentage',
+      thresholds: [
+        { min: 54435, rate: 0.01, base: 0 },
+        { min: 62851, rate: 0.02, base: 0 },
+        { min: 66621, rate: 0.025, base: 0 },
+        { min: 70619, rate: 0.03, base: 0 },
+        { min: 74856, rate: 0.035, base: 0 },
+        { min: 79347, rate: 0.04, base: 0 },
+        { min: 84108, rate: 0.045, base: 0 },
+        { min: 89155, rate: 0.05, base: 0 },
+        { min: 94504, rate: 0.055, base: 0 },
+        { min: 100175, rate: 0.06, base: 0 },
+        { min: 106186, rate: 0.065, base: 0 },
+        { min: 112557, rate: 0.07, base: 0 },
+        { min: 119310, rate: 0.075, base: 0 },
+        { min: 126468, rate: 0.08, base: 0 },
+        { min: 134057, rate: 0.085, base: 0 },
+        { min: 142101, rate: 0.09, base: 0 },
+        { min: 150627, rate: 0.095, base: 0 },
+        { min: 159664, rate: 0.10, base: 0 }
+      ]
+    },
+    withholding: {
+      coefficients: withholdingCoefficients2024,
+      noTfn: { resident: 0.47, foreignResident: 0.45 }
+    },
+    super: {
+      guaranteeRate: 0.115,
+      maximumContributionBase: 65070,
+      contributionBasePeriod: 'quarter',
+      concessionalCap: 30000
+    },
+    termination: { etpCap: 245000, wholeOfIncomeCap: 180000, redundancyBase: 12524, redundancyPerYear: 6264 },
+    payrollTax: payrollTax2024
+  },
+  {
+    year: '2025-26',
+    effectiveFrom: '2025-07-01',
+    sources: [
+      atoSources.residentRates,
+      atoSources.foreignResidentRates,
+      atoSources.workingHolidayMakerRates,
+      { ...atoSources.schedule1, title: `${atoSources.schedule1.title} (from 1 July 2024)` },
+      atoSources.studyLoans,
+      atoSources.medicareLevy,
+      atoSources.medicareLevySurcharge,
+      atoSources.superannuation
+    ],
+    taxBrackets: {
+      resident: residentTaxBrackets2024,
+      foreignResident: foreignResidentTaxBrackets2024,
+      workingHolidayMaker: workingHolidayMakerTaxBrackets2024,
+      noTfn: noTfnTaxBrackets
+    },
+    taxOffsets: [
+      lowIncomeTaxOffset,
+      seniorPensionerTaxOffset2024
+    ],
+    // Same thresholds as the previous year
+    medicareLevy: {
+      rate: 0.02,
+      single: { lower: 27222, upper: 34027 },
+      singleSenior: { lower: 43020, upper: 53775 },
+      family: { lower: 45907, upper: 57383 },
+      familySenior: { lower: 59886, upper: 74857 },
+      perChild: 4216
+    },
+    medicareLevySurcharge: {
+      single: [
+        { min: 0, max: 101000, rate: 0 },
+        { min: 101001, max: 118000, rate: 0.01 },
+        { min: 118001, max: 158000, rate: 0.0125 },
+        { min: 158001, max: Infinity, rate: 0.015 }
+      ],
+      family: [
+        { min: 0, max: 202000, rate: 0 },
+        { min: 202001, max: 236000, rate: 0.01 },
+        { min: 236001, max: 316000, rate: 0.0125 },
+        { min: 316001, max: Infinity, rate: 0.015 }
+      ],
+      perChild: 1500
+    },
+    studyLoan: {
+      system: 'marginal',
+      thresholds: [
+        { min: 67000, rate: 0.15, base: 0 },
+        { min: 125000, rate: 0.17, base: 8700 }
+      ]
+    },
+    withholding: {
+      coefficients: withholdingCoefficients2024,
+      noTfn: { resident: 0.47, foreignResident: 0.45 }
+    },
+    super: {
+      guaranteeRate: 0.12,
+      maximumContributionBase: 62500,
+      contributionBasePeriod: 'quarter',
+      concessionalCap: 30000
+    },
+    termination: { etpCap: 255000, wholeOfIncomeCap: 180000, redundancyBase: 12837, redundancyPerYear: 6420 },
+    payrollTax: payrollTax2025
+  },
+  // The 16% rate falls to 15% from 1 July 2026. Indexed thresholds, caps and the Schedule 1
+  // coefficients for the new rate aren't loaded yet, so 2025-26 amounts are carried forward
+  // and the pack is marked provisional. Withholding still uses the 2025-26 tables, built on the
+  // 16% rate, so it runs a little above the 2026-27 tax estimate.
+  {
+    year: '2026-27',
+    effectiveFrom: '2026-07-01',
+    provisional: true,
+    sources: [
+      atoSources.residentRates,
+      atoSources.foreignResidentRates,
+      atoSources.workingHolidayMakerRates,
+      { ...atoSources.schedule1, title: `${atoSources.schedule1.title} (from 1 July 2024)` },
+      atoSources.studyLoans,
+      atoSources.medicareLevy,
+      atoSources.medicareLevySurcharge,
+      atoSources.superannuation
+    ],
+    taxBrackets: {
+      resident: [
+        { min: 0, max: 18200, rate: 0, offset: 0 },
+        { min: 18201, max: 45000, rate: 0.15, offset: 0 },
+        { min: 45001, max: 135000, rate: 0.30, offset: 4020 },
+        { min: 135001, max: 190000, rate: 0.37, offset: 31020 },
+        { min: 190001, max: Infinity, rate: 0.45, offset: 51370 }
+      ],
+      foreignResident: foreignResidentTaxBrackets2024,
+      workingHolidayMaker: workingHolidayMakerTaxBrackets2024,
+      noTfn: noTfnTaxBrackets
+    },
+    taxOffsets: [
+      lowIncomeTaxOffset,
+      seniorPensionerTaxOffset2024
+    ],
+    medicareLevy: {
+      rate: 0.02,
+      single: { lower: 27222, upper: 34027 },
+      singleSenior: { lower: 43020, upper: 53775 },
+      family: { lower: 45907, upper: 57383 },
+      familySenior: { lower: 59886, upper: 74857 },
+      perChild: 4216
+    },
+    medicareLevySurcharge: {
+      single: [
+        { min: 0, max: 101000, rate: 0 },
+        { min: 101001, max: 118000, rate: 0.01 },
+        { min: 118001, max: 158000, rate: 0.0125 },
+        { min: 158001, max: Infinity, rate: 0.015 }
+      ],
+      family: [
+        { min: 0, max: 202000, rate: 0 },
+        { min: 202001, max: 236000, rate: 0.01 },
+        { min: 236001, max: 316000, rate: 0.0125 },
+        { min: 316001, max: Infinity, rate: 0.015 }
+      ],
+      perChild: 1500
+    },
+    studyLoan: {
+      system: 'marginal',
+      thresholds: [
+        { min: 67000, rate: 0.15, base: 0 },
+        { min: 125000, rate: 0.17, base: 8700 }
+      ]
+    },
+    withholding: {
+      coefficients: withholdingCoefficients2024,
+      tablesYear: '2025-26',
+      noTfn: { resident: 0.47, foreignResident: 0.45 }
+    },
+    // Payday super replaces the quarterly maximum contribution base with an annual one
+    super: {
+      guaranteeRate: 0.12,
+      maximumContributionBase: 250000,
+      contributionBasePeriod: 'year',
+      concessionalCap: 30000
+    },
+    termination: { etpCap: 255000, wholeOfIncomeCap: 180000, redundancyBase: 12837, redundancyPerYear: 6420 },
+    payrollTax: payrollTax2025
+  }
+];
+
+// Payday super replaces quarterly SG payments for pays made from this date
+export const paydaySuperStart = new Date(2026, 6, 1);
+
+// Flat withholding rates for termination payments, before the Medicare levy for residents
+export const terminationWithholdingRates = {
+  concessionalLeave: 0.3,
+  etpUnderPreservationAge: 0.3,
+  etpPreservationAge: 0.15,
+  etpAboveCap: 0.45
+};
+
+// Preservation age by date of birth - 60 for anyone born after 30 June 1964
+export const preservationAges: Array<{ bornBefore: Date; age: number }> = [
+  { bornBefore: new Date(1960, 6, 1), age: 55 },
+  { bornBefore: new Date(1961, 6, 1), age: 56 },
+  { bornBefore: new Date(1962, 6, 1), age: 57 },
+  { bornBefore: new Date(1963, 6, 1), age: 58 },
+  { bornBefore: new Date(1964, 6, 1), age: 59 }
+];
+
+export const longServiceLeavePeriods: Array<{ id: LongServiceLeavePeriod; label: string; from: Date | null; to: Date | null }> = [
+  { id: 'pre1978', label: 'Unused long service leave (before 16 Aug 1978)', from: null, to: new Date(1978, 7, 16) },
+  { id: 'from1978To1993', label: 'Unused long service leave (16 Aug 1978 - 17 Aug 1993)', from: new Date(1978, 7, 16), to: new Date(1993, 7, 18) },
+  { id: 'post1993', label: 'Unused long service leave (after 17 Aug 1993)', from: new Date(1993, 7, 18), to: null }
+];
+
+// Long service leave legislation by state
+export const longServiceLeaveRules: Record<AustralianState, LongServiceLeaveRule> = {
+  NSW: { weeksPerYear: 13 / 15, entitlementYears: 10 },
+  VIC: { weeksPerYear: 13 / 15, entitlementYears: 7 },
+  QLD: { weeksPerYear: 13 / 15, entitlementYears: 10 },
+  WA: { weeksPerYear: 13 / 15, entitlementYears: 10 },
+  SA: { weeksPerYear: 1.3, entitlementYears: 10 },
+  TAS: { weeksPerYear: 13 / 15, entitlementYears: 10 },
+  ACT: { weeksPerYear: 13 / 15, entitlementYears: 7 },
+  NT: { weeksPerYear: 1.3, entitlementYears: 10 }
+};
+
+const isContiguous = (ranges: Array<{ min: number; max: number }>): boolean => {
+  return ranges.length > 0
+    && ranges.every((range, index) => range.min <= range.max && (index === 0 || range.min === ranges[index - 1].max + 1))
+    && ranges[ranges.length - 1].max === Infinity;
+};
+
+const isRate = (rate: number): boolean => rate >= 0 && rate <= 1;
+
+// Checks a pack is complete and internally consistent - brackets and tiers run without gaps up to
+// Infinity, coefficient bands are in order, rates are fractions and the dates fall in the pack's year
+export const validateTaxRulesPack = (pack: TaxRulesPack): string[] => {
+  const problems: string[] = [];
+  const match = /^(\d{4})-(\d{2})$/.exec(pack.year);
+  const effectiveFrom = /^\d{4}-\d{2}-\d{2}$/.test(pack.effectiveFrom) ? parseDate(pack.effectiveFrom) : null;
+
+  if (!match || (Number(match[1]) + 1) % 100 !== Number(match[2])) {
+    problems.push(`year ${pack.year} isn't a financial year like 2025-26`);
+  } else if (!effectiveFrom || isNaN(effectiveFrom.getTime()) || getFinancialYearStart(effectiveFrom).getFullYear() !== Number(match[1])) {
+    problems.push(`effectiveFrom ${pack.effectiveFrom} isn't a date in ${pack.year}`);
+  }
+  if (pack.sources.length === 0 || pack.sources.some(source => !source.title || !source.url.startsWith('https://'))) {
+    problems.push('every pack needs at least one source with a title and https URL');
+  }
+  (Object.keys(pack.taxBrackets) as Array<keyof TaxRulesPack['taxBrackets']>).forEach(table => {
+    const brackets = pack.taxBrackets[table];
+    if (!isContiguous(brackets) || brackets[0].min > 1 || !brackets.every(b => isRate(b.rate) && b.offset >= 0)) {
+      problems.push(`${table} tax brackets must start at $1 or less and run without gaps`);
+    }
+  });
+  if (!pack.taxOffsets.every(offset => offset.max >= 0 && offset.phaseOuts.every(p => p.from < p.to && isRate(p.rate)))) {
+    problems.push('tax offset phase-outs must have increasing ranges and fractional rates');
+  }
+  const { rate, perChild, ...thresholds } = pack.medicareLevy;
+  if (!isRate(rate) || perChild < 0 || !Object.values(thresholds).every(t => t.lower < t.upper)) {
+    problems.push('Medicare levy thresholds must have a lower bound below the upper bound');
+  }
+  const { single, family } = pack.medicareLevySurcharge;
+  if (!isContiguous(single) || !isContiguous(family) || ![...single, ...family].every(tier => isRate(tier.rate))) {
+    problems.push('Medicare levy surcharge tiers must run without gaps');
+  }
+  if (!pack.studyLoan.thresholds.every((t, index, all) => isRate(t.rate) && (index === 0 || t.min > all[index - 1].min))) {
+    problems.push('study loan thresholds must be in increasing order');
+  }
+  (Object.keys(withholdingScaleLabels) as WithholdingScale[])
+    .filter((scale): scale is CoefficientScale => scale !== 'noTfn' && scale !== 'workingHolidayMaker')
+    .forEach(scale => {
+      const coefficients = pack.withholding.coefficients[scale];
+      if (!coefficients?.length
+        || coefficients[coefficients.length - 1].max !== Infinity
+        || !coefficients.every((c, index) => isRate(c.a) && (index === 0 || c.max > coefficients[index - 1].max))) {
+        problems.push(`Schedule 1 coefficients for ${scale} must be in increasing bands up to Infinity`);
+      }
+    });
+  if (!isRate(pack.withholding.noTfn.resident) || !isRate(pack.withholding.noTfn.foreignResident)) {
+    problems.push('no-TFN withholding rates must be fractions');
+  }
+  if (!isRate(pack.super.guaranteeRate) || pack.super.maximumContributionBase <= 0 || pack.super.concessionalCap <= 0) {
+    problems.push('super guarantee rate, maximum contribution base and concessional cap must be set');
+  }
+  (Object.keys(longServiceLeaveRules) as AustralianState[]).forEach(state => {
+    const rule = pack.payrollTax?.[state];
+    if (!rule
+      || !isRate(rule.rate)
+      || rule.brackets[0]?.min !== rule.threshold
+      || !rule.brackets.every((b, index, all) => isRate(b.rate) && b.base >= 0 && (index === 0 || b.min > all[index - 1].min))
+      || !rule.source.url.startsWith('https://')) {
+      problems.push(`${state} payroll tax brackets must start at the threshold and be in increasing order`);
+    }
+  });
+
+  return problems;
+};
+
+// Packs that pass validation, in effective date order. Invalid packs are left out of the
+// calculator rather than producing wrong figures.
+export const rulesPacks = taxRulesPacks
+  .filter(pack => {
+    const problems = validateTaxRulesPack(pack);
+    if (problems.length > 0) {
+      console.error(`Tax rules pack ${pack.year} is invalid: ${problems.join('; ')}`);
+    }
+    return problems.length === 0;
+  })
+  .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+export const getRulesPack = (year: string): TaxRulesPack | undefined => {
+  return rulesPacks.find(pack => pack.year === year);
+};
+
+// The pack in effect on a date - the latest to take effect by then, as long as the date is
+// still in that pack's financial year
+export const findRulesPack = (date: Date): TaxRulesPack | undefined => {
+  const pack = [...rulesPacks].reverse().find(p => parseDate(p.effectiveFrom) <= date);
+  return pack && getFinancialYearStart(parseDate(pack.effectiveFrom)).getTime() === getFinancialYearStart(date).getTime()
+    ? pack
+    : undefined;
+};
+
+// The chosen tax year's pack, or the one in effect on the pay date when no year is chosen
+export const resolveRulesPack = (inputs: InputState): TaxRulesPack | undefined => {
+  return inputs.taxYear ? getRulesPack(inputs.taxYear) : findRulesPack(parseDate(inputs.payDate));
+};
@@ -0,0 +1,138 @@
+import type { PayFrequencyRule, PayPeriod, ProRataBasis } from './types';
+
+// Annual amounts are divided over the standard number of pays; the calendar decides how many
+// pays actually fall in a financial year. Weekly and fortnightly schedules can have an extra pay,
+// for which the ATO allows an extra amount to be withheld from every pay in that year.
+export const payFrequencyRules: Record<string, PayFrequencyRule> = {
+  weekly: {
+    periodsPerYear: 52,
+    weeksPerPeriod: 1,
+    interval: { days: 7 },
+    extraPayWithholding: [
+      { min: 725, amount: 3 },
+      { min: 1525, amount: 5 },
+      { min: 3450, amount: 10 }
+    ]
+  },
+  fortnightly: {
+    periodsPerYear: 26,
+    weeksPerPeriod: 2,
+    interval: { days: 14 },
+    extraPayWithholding: [
+      { min: 1450, amount: 13 },
+      { min: 3050, amount: 21 },
+      { min: 6900, amount: 43 }
+    ]
+  },
+  monthly: { periodsPerYear: 12, weeksPerPeriod: 52 / 12, interval: { months: 1 } },
+  quarterly: { periodsPerYear: 4, weeksPerPeriod: 13, interval: { months: 3 } }
+};
+
+export const getPayFrequencyRule = (frequency: string): PayFrequencyRule => {
+  return payFrequencyRules[frequency] || payFrequencyRules.fortnightly;
+};
+
+// Date inputs are read as local calendar dates rather than UTC midnight
+export const parseDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Inverse of parseDate - the local date as YYYY-MM-DD
+export const formatIsoDate = (date: Date): string => {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// A real calendar date written as YYYY-MM-DD, so it reads back unchanged
+export const isIsoDate = (value: string): boolean => {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && formatIsoDate(parseDate(value)) === value;
+};
+
+export const getFinancialYearStart = (date: Date): Date => {
+  return new Date(date.getFullYear() - (date.getMonth() < 6 ? 1 : 0), 6, 1);
+};
+
+// Monthly and quarterly pays keep the anchor's day of the month, falling back to the
+// last day of shorter months. An anchor on the last day of its month stays on month ends.
+const addPayPeriods = (anchor: Date, rule: PayFrequencyRule, count: number): Date => {
+  if ('days' in rule.interval) {
+    return new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + rule.interval.days * count);
+  }
+
+  const month = anchor.getMonth() + rule.interval.months * count;
+  const lastDay = new Date(anchor.getFullYear(), month + 1, 0).getDate();
+  const isMonthEnd = anchor.getDate() === new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate();
+  return new Date(anchor.getFullYear(), month, isMonthEnd ? lastDay : Math.min(anchor.getDate(), lastDay));
+};
+
+// Every pay date in the financial year containing the anchor pay date
+export const generatePayDates = (anchor: Date, rule: PayFrequencyRule): Date[] => {
+  const yearStart = getFinancialYearStart(anchor);
+  const yearEnd = new Date(yearStart.getFullYear() + 1, 5, 30);
+  const payDates: Date[] = [];
+
+  for (let count = 0; addPayPeriods(anchor, rule, count) >= yearStart; count--) {
+    payDates.unshift(addPayPeriods(anchor, rule, count));
+  }
+  for (let count = 1; addPayPeriods(anchor, rule, count) <= yearEnd; count++) {
+    payDates.push(addPayPeriods(anchor, rule, count));
+  }
+
+  return payDates;
+};
+
+// Extra withholding for years with 53 weekly or 27 fortnightly pays, based on earnings ignoring cents
+export const calculateExtraPayWithholding = (grossPay: number, rule: PayFrequencyRule): number => {
+  const tier = [...(rule.extraPayWithholding || [])].reverse().find(t => Math.floor(grossPay) >= t.min);
+  return tier ? tier.amount : 0;
+};
+
+// Pay periods line up with the current period - the pay date and period end move together
+export const getPayPeriod = (payDate: Date, currentPeriodEnd: Date, rule: PayFrequencyRule, offset: number): PayPeriod => {
+  const end = addPayPeriods(currentPeriodEnd, rule, offset);
+  const previousEnd = addPayPeriods(currentPeriodEnd, rule, offset - 1);
+  const start = new Date(previousEnd.getFullYear(), previousEnd.getMonth(), previousEnd.getDate() + 1);
+  return { payDate, start, end, daysInPeriod: 0, daysPaid: 0, proRata: 1 };
+};
+
+// Working days are Monday to Friday; public holidays are still paid so aren't excluded
+export const countDays = (from: Date, to: Date, basis: ProRataBasis): number => {
+  let count = 0;
+  for (let date = new Date(from); date <= to; date.setDate(date.getDate() + 1)) {
+    if (basis === 'calendarDays' || (date.getDay() !== 0 && date.getDay() !== 6)) {
+      count++;
+    }
+  }
+  return count;
+};
+
+// Share of a pay period within employment, for starting or finishing partway through a period
+export const calculateProRata = (
+  period: PayPeriod,
+  employmentStart: Date,
+  employmentEnd: Date | null,
+  basis: ProRataBasis
+): Pick<PayPeriod, 'daysInPeriod' | 'daysPaid' | 'proRata'> => {
+  const from = employmentStart > period.start ? employmentStart : period.start;
+  const to = employmentEnd && employmentEnd < period.end ? employmentEnd : period.end;
+  const daysInPeriod = countDays(period.start, period.end, basis);
+  const daysPaid = countDays(from, to, basis);
+  return { daysInPeriod, daysPaid, proRata: daysInPeriod > 0 ? daysPaid / daysInPeriod : 0 };
+};
+
+// SG quarters run Jul-Sep, Oct-Dec, Jan-Mar and Apr-Jun
+export const getSuperQuarterStart = (date: Date): Date => {
+  return new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1);
+};
+
+export const addBusinessDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  for (let count = 0; count < days;) {
+    result.setDate(result.getDate() + 1);
+    if (result.getDay() !== 0 && result.getDay() !== 6) {
+      count++;
+    }
+  }
+  return result;
+};
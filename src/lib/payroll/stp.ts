@@ -0,0 +1,365 @@
+import type {
+  CalculationResults,
+  EarningsType,
+  InputState,
+  JsonSchema,
+  PostTaxDeductionType,
+  PreTaxDeductionType,
+  StpAmount,
+  StpEtp,
+  StpLumpSum,
+  StpPayee,
+  StpPayload
+} from './types';
+import { validateJsonSchema } from './jsonSchema';
+import { formatIsoDate } from './schedule';
+
+// Where each kind of earnings is reported. Non-taxable allowances aren't reportable; prior year back
+// pay is assumed to relate to the previous financial year.
+type StpEarningsCategory = 'gross' | 'overtime' | 'bonusesAndCommissions' | 'otherPaidLeave' | 'cashOutLeave' | 'otherAllowance' | 'priorYearBackPay';
+
+const earningsCategories: Record<EarningsType, StpEarningsCategory | null> = {
+  salary: 'gross',
+  ordinary: 'gross',
+  saturday: 'gross',
+  sunday: 'gross',
+  publicHoliday: 'gross',
+  backPay: 'gross',
+  overtime: 'overtime',
+  bonus: 'bonusesAndCommissions',
+  commission: 'bonusesAndCommissions',
+  annualLeave: 'otherPaidLeave',
+  personalLeave: 'otherPaidLeave',
+  longServiceLeave: 'otherPaidLeave',
+  leaveLoading: 'otherPaidLeave',
+  leaveCashOut: 'cashOutLeave',
+  allowanceTaxable: 'otherAllowance',
+  allowanceNonTaxable: null,
+  priorYearBackPay: 'priorYearBackPay'
+};
+
+const salarySacrificeCodes: Record<PreTaxDeductionType, 'S' | 'O'> = {
+  superSacrifice: 'S',
+  novatedLease: 'O',
+  other: 'O'
+};
+
+// Only union fees, workplace giving and child support are reportable deductions
+const deductionCodes: Record<PostTaxDeductionType, 'F' | 'W' | 'G' | null> = {
+  unionFees: 'F',
+  workplaceGiving: 'W',
+  childSupport: 'G',
+  novatedLease: null,
+  afterTaxSuper: null,
+  other: null
+};
+
+const cents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Groups amounts by code, leaving out codes with nothing paid
+const byCode = <Code extends string>(amounts: Array<[Code, number]>): StpAmount<Code>[] => {
+  const totals = new Map<Code, number>();
+  amounts.forEach(([code, amount]) => totals.set(code, (totals.get(code) || 0) + amount));
+  return Array.from(totals, ([typeCode, amount]) => ({ typeCode, amount: cents(amount) }))
+    .filter(item => item.amount > 0);
+};
+
+// Six characters - category and option, then study loan, Medicare levy surcharge, exemption and
+// reduction. Withholding here isn't varied for the surcharge or a levy reduction.
+const getTaxTreatmentCode = (results: CalculationResults, input: InputState): string => {
+  const categoryAndOption = results.withholdingScale === 'noTfn'
+    ? `N${results.residencyStatus === 'foreignResident' ? 'F' : 'A'}`
+    : results.residencyStatus === 'workingHolidayMaker'
+      ? 'HR'
+      : results.residencyStatus === 'foreignResident'
+        ? 'FF'
+        : `R${input.claimsTaxFreeThreshold ? 'T' : 'N'}`;
+  const studyLoan = input.hasStudyLoan ? 'S' : 'X';
+  const exemption = results.medicareExemption === 'full' ? 'F' : results.medicareExemption === 'half' ? 'H' : 'X';
+  return `${categoryAndOption}${studyLoan}X${exemption}X`;
+};
+
+const previousFinancialYear = (year: string): string => {
+  const start = parseInt(year.slice(0, 4), 10) - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+// Lump sums of the same type and payment type are reported as one amount
+const combineLumpSums = (lumpSums: StpLumpSum[]): StpLumpSum[] => {
+  const combined = new Map<string, StpLumpSum>();
+  lumpSums.forEach(lumpSum => {
+    const key = `${lumpSum.typeCode}-${lumpSum.paymentTypeCode || ''}-${lumpSum.financialYear || ''}`;
+    const existing = combined.get(key);
+    combined.set(key, existing ? { ...existing, amount: cents(existing.amount + lumpSum.amount) } : lumpSum);
+  });
+  return Array.from(combined.values());
+};
+
+const splitName = (name: string): StpPayee['name'] => {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  const familyName = parts.pop() || '';
+  return parts.length > 0 ? { familyName, firstName: parts.join(' ') } : { familyName };
+};
+
+const cessationTypeCodes = { resignation: 'V', genuineRedundancy: 'R', invalidity: 'I' } as const;
+
+// Year-to-date payee data for the pay runs up to and including this one, plus any final pay
+export const buildStpPayee = (input: InputState, results: CalculationResults): StpPayee => {
+  const ytdPayRuns = results.payRuns.slice(0, results.periodsToDate);
+  const payDate = formatIsoDate(results.currentPeriod.payDate);
+
+  const earnings = new Map<StpEarningsCategory, number>();
+  ytdPayRuns.flatMap(run => run.earningsLines).forEach(line => {
+    const category = earningsCategories[line.type as EarningsType];
+    if (category) {
+      earnings.set(category, (earnings.get(category) || 0) + line.amount);
+    }
+  });
+  const earned = (category: StpEarningsCategory): number => earnings.get(category) || 0;
+
+  let paygWithholding = ytdPayRuns.reduce((sum, run) => sum + run.withholding + run.oneOffWithholding + run.studyLoanWithholding, 0);
+  const paidLeave: Array<['C' | 'U' | 'O', number]> = [['O', earned('otherPaidLeave')], ['C', earned('cashOutLeave')]];
+  const lumpSums: StpLumpSum[] = [];
+  const etps: StpEtp[] = [];
+  if (earned('priorYearBackPay') > 0) {
+    lumpSums.push({ typeCode: 'E', amount: cents(earned('priorYearBackPay')), financialYear: previousFinancialYear(results.rules.year) });
+  }
+
+  // Final pay - unused leave is paid leave U, or lump sum A on a redundancy or invalidity and for
+  // 1978-1993 long service leave. Pre-1978 long service leave is lump sum B. Tax-free redundancy is
+  // lump sum D and the rest of each termination payment is an ETP, withheld separately from PAYG.
+  const finalPay = results.finalPay;
+  if (finalPay) {
+    const concessional = finalPay.reason !== 'resignation';
+    const lumpSumA = (amount: number): StpLumpSum => ({ typeCode: 'A', paymentTypeCode: concessional ? 'R' : 'T', amount: cents(amount) });
+    finalPay.lines.forEach(line => {
+      if (line.id === 'redundancy' || line.id === 'paymentInLieuOfNotice' || line.id === 'otherTerminationPayment') {
+        if (line.taxFree > 0) {
+          lumpSums.push({ typeCode: 'D', amount: cents(line.taxFree) });
+        }
+        if (line.amount - line.taxFree > 0) {
+          etps.push({
+            typeCode: concessional ? 'R' : 'O',
+            paymentDate: payDate,
+            taxableComponent: cents(line.amount - line.taxFree),
+            taxWithheld: line.withholding
+          });
+        }
+        return;
+      }
+      paygWithholding += line.withholding;
+      if (line.id === 'pre1978') {
+        lumpSums.push({ typeCode: 'B', amount: cents(line.amount) });
+      } else if (line.id === 'from1978To1993' || concessional) {
+        lumpSums.push(lumpSumA(line.amount));
+      } else {
+        paidLeave.push(['U', line.amount]);
+      }
+    });
+  }
+
+  const employment: StpPayee['employment'] = {
+    basisCode: results.employmentType === 'fullTime' ? 'F' : results.employmentType === 'partTime' ? 'P' : 'C',
+    taxTreatmentCode: getTaxTreatmentCode(results, input),
+    incomeType: results.residencyStatus === 'workingHolidayMaker' ? 'WHM' : 'SAW',
+    startDate: input.employmentStartDate
+  };
+  if (input.employmentEndDate) {
+    employment.cessationDate = input.employmentEndDate;
+    if (finalPay) {
+      employment.cessationTypeCode = cessationTypeCodes[finalPay.reason];
+    }
+  }
+
+  const tfn = input.employeeTfn.replace(/\s/g, '');
+  const salarySacrificeSuper = ytdPayRuns.reduce((sum, run) => sum + run.superSalarySacrifice, 0);
+
+  return {
+    payrollId: input.employeeId.trim(),
+    // 000000000 is the ATO code for an employee who hasn't quoted a TFN
+    tfn: tfn || (input.tfnProvided ? '' : '000000000'),
+    name: splitName(input.employeeName),
+    ...(input.dateOfBirth ? { dateOfBirth: input.dateOfBirth } : {}),
+    employment,
+    remuneration: {
+      gross: cents(earned('gross')),
+      paidLeave: byCode(paidLeave),
+      allowances: byCode([['OD', earned('otherAllowance')]]),
+      overtime: cents(earned('overtime')),
+      bonusesAndCommissions: cents(earned('bonusesAndCommissions')),
+      salarySacrifice: byCode(ytdPayRuns.flatMap(run => run.preTaxDeductions)
+        .map(deduction => [salarySacrificeCodes[deduction.type as PreTaxDeductionType], deduction.amount])),
+      lumpSums: combineLumpSums(lumpSums),
+      paygWithholding
+    },
+    etps,
+    deductions: byCode(ytdPayRuns.flatMap(run => run.postTaxDeductions).flatMap(deduction => {
+      const code = deductionCodes[deduction.type as PostTaxDeductionType];
+      return code ? [[code, deduction.amount] as ['F' | 'W' | 'G', number]] : [];
+    })),
+    super: {
+      superGuaranteeLiability: cents(ytdPayRuns.reduce((sum, run) => sum + run.superGuarantee, 0)),
+      ordinaryTimeEarnings: cents(ytdPayRuns.reduce((sum, run) => sum + run.ordinaryTimeEarnings, 0)),
+      reportableEmployerSuper: cents(salarySacrificeSuper)
+    }
+  };
+};
+
+// Pay event for one or more payees paid on the same date. The payer comes from the first payslip.
+export const buildStpPayload = (
+  payslips: Array<{ input: InputState; results: CalculationResults }>,
+  runDateTime: Date = new Date()
+): StpPayload => {
+  const [first] = payslips;
+  return {
+    payer: {
+      abn: first.input.employerAbn.replace(/\s/g, ''),
+      name: first.input.employerName.trim(),
+      bmsId: 'bradmode-tools'
+    },
+    payEvent: {
+      paymentDate: formatIsoDate(first.results.currentPeriod.payDate),
+      runDateTime: runDateTime.toISOString(),
+      financialYear: first.results.rules.year,
+      payeeCount: payslips.length
+    },
+    payees: payslips.map(({ input, results }) => buildStpPayee(input, results))
+  };
+};
+
+const date: JsonSchema = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' };
+const amount: JsonSchema = { type: 'number', minimum: 0 };
+const codedAmounts = (codes: string[]): JsonSchema => ({
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: { typeCode: { type: 'string', enum: codes }, amount },
+    required: ['typeCode', 'amount'],
+    additionalProperties: false
+  }
+});
+
+export const stpPayloadSchema: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://bradmode.tools/schemas/stp-phase2-pay-event.json',
+  title: 'STP Phase 2 pay event',
+  type: 'object',
+  properties: {
+    payer: {
+      type: 'object',
+      properties: {
+        abn: { type: 'string', pattern: '^\\d{11}$', description: 'Payer ABN' },
+        name: { type: 'string', minLength: 1, maxLength: 200 },
+        bmsId: { type: 'string', minLength: 1 }
+      },
+      required: ['abn', 'name', 'bmsId'],
+      additionalProperties: false
+    },
+    payEvent: {
+      type: 'object',
+      properties: {
+        paymentDate: date,
+        runDateTime: { type: 'string', minLength: 1 },
+        financialYear: { type: 'string', pattern: '^\\d{4}-\\d{2}$' },
+        payeeCount: { type: 'integer', minimum: 1 }
+      },
+      required: ['paymentDate', 'runDateTime', 'financialYear', 'payeeCount'],
+      additionalProperties: false
+    },
+    payees: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          payrollId: { type: 'string', minLength: 1, maxLength: 20, description: 'Payee payroll ID' },
+          tfn: { type: 'string', pattern: '^\\d{9}$', description: 'Payee TFN, or 000000000 if not quoted' },
+          name: {
+            type: 'object',
+            properties: {
+              familyName: { type: 'string', minLength: 1, maxLength: 40 },
+              firstName: { type: 'string', maxLength: 40 }
+            },
+            required: ['familyName'],
+            additionalProperties: false
+          },
+          dateOfBirth: date,
+          employment: {
+            type: 'object',
+            properties: {
+              basisCode: { type: 'string', enum: ['F', 'P', 'C'] },
+              taxTreatmentCode: { type: 'string', pattern: '^[RACSHWFNDV][A-Z][SX][123X][FHX][0-9AX]$' },
+              incomeType: { type: 'string', enum: ['SAW', 'WHM'] },
+              startDate: date,
+              cessationDate: date,
+              cessationTypeCode: { type: 'string', enum: ['V', 'I', 'R'] }
+            },
+            required: ['basisCode', 'taxTreatmentCode', 'incomeType', 'startDate'],
+            additionalProperties: false
+          },
+          remuneration: {
+            type: 'object',
+            properties: {
+              gross: amount,
+              paidLeave: codedAmounts(['C', 'U', 'O']),
+              allowances: codedAmounts(['OD']),
+              overtime: amount,
+              bonusesAndCommissions: amount,
+              salarySacrifice: codedAmounts(['S', 'O']),
+              lumpSums: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    typeCode: { type: 'string', enum: ['A', 'B', 'D', 'E'] },
+                    paymentTypeCode: { type: 'string', enum: ['R', 'T'] },
+                    financialYear: { type: 'string', pattern: '^\\d{4}-\\d{2}$' },
+                    amount
+                  },
+                  required: ['typeCode', 'amount'],
+                  additionalProperties: false
+                }
+              },
+              paygWithholding: { type: 'integer', minimum: 0 }
+            },
+            required: ['gross', 'paidLeave', 'allowances', 'overtime', 'bonusesAndCommissions', 'salarySacrifice', 'lumpSums', 'paygWithholding'],
+            additionalProperties: false
+          },
+          etps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                typeCode: { type: 'string', enum: ['R', 'O'] },
+                paymentDate: date,
+                taxableComponent: amount,
+                taxWithheld: { type: 'integer', minimum: 0 }
+              },
+              required: ['typeCode', 'paymentDate', 'taxableComponent', 'taxWithheld'],
+              additionalProperties: false
+            }
+          },
+          deductions: codedAmounts(['F', 'W', 'G']),
+          super: {
+            type: 'object',
+            properties: {
+              superGuaranteeLiability: amount,
+              ordinaryTimeEarnings: amount,
+              reportableEmployerSuper: amount
+            },
+            required: ['superGuaranteeLiability', 'ordinaryTimeEarnings', 'reportableEmployerSuper'],
+            additionalProperties: false
+          }
+        },
+        required: ['payrollId', 'tfn', 'name', 'employment', 'remuneration', 'etps', 'deductions', 'super'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['payer', 'payEvent', 'payees'],
+  additionalProperties: false
+};
+
+export const validateStpPayload = (payload: unknown): string[] => {
+  return validateJsonSchema(stpPayloadSchema, payload);
+};
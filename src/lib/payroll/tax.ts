@@ -0,0 +1,277 @@
+import type {
+  CoefficientScale,
+  Household,
+  MedicareExemption,
+  ResidencyStatus,
+  TaxBracket,
+  TaxOffsetResult,
+  TaxOffsetRule,
+  TaxRulesPack,
+  WithholdingScale
+} from './types';
+
+export const getTaxBrackets = (rules: TaxRulesPack, residency: ResidencyStatus, tfnProvided: boolean): TaxBracket[] => {
+  return rules.taxBrackets[tfnProvided ? residency : 'noTfn'];
+};
+
+export const calculateTax = (taxableIncome: number, brackets: TaxBracket[]): number => {
+  // First bracket whose upper bound covers the income, so part-dollar incomes don't fall between brackets
+  const bracket = brackets.find(b => taxableIncome <= b.max);
+
+  if (!bracket || taxableIncome <= 0) {
+    return 0;
+  }
+
+  return bracket.offset + Math.max(0, taxableIncome - bracket.min + 1) * bracket.rate;
+};
+
+const calculateTaxOffset = (rule: TaxOffsetRule, income: number, hasSpouse: boolean): number => {
+  const { max, phaseOuts } = hasSpouse && rule.couple ? rule.couple : rule;
+  const reduction = phaseOuts.reduce(
+    (sum, phase) => sum + Math.min(Math.max(0, income - phase.from), phase.to - phase.from) * phase.rate,
+    0
+  );
+  return Math.max(0, max - reduction);
+};
+
+// Offsets are applied in order and can't reduce income tax below zero
+export const calculateTaxOffsets = (
+  rules: TaxRulesPack,
+  taxableIncome: number,
+  rebateIncome: number,
+  grossTax: number,
+  hasSpouse: boolean,
+  eligible: (rule: TaxOffsetRule) => boolean
+): TaxOffsetResult[] => {
+  let remainingTax = grossTax;
+
+  return rules.taxOffsets
+    .filter(eligible)
+    .map(rule => {
+      const offset = calculateTaxOffset(rule, rule.incomeTest === 'rebate' ? rebateIncome : taxableIncome, hasSpouse);
+      const amount = Math.min(offset, remainingTax);
+      remainingTax -= amount;
+      return { id: rule.id, label: rule.label, amount };
+    })
+    .filter(offset => offset.amount > 0);
+};
+
+export const isFamily = (household: Household): boolean => household.hasSpouse || household.dependentChildren > 0;
+
+export const calculateMedicareLevy = (
+  taxableIncome: number,
+  rules: TaxRulesPack,
+  household: Household,
+  exemption: MedicareExemption
+): number => {
+  if (exemption === 'full') {
+    return 0;
+  }
+  
+  const thresholds = rules.medicareLevy;
+  const rate = thresholds.rate * (exemption === 'half' ? 0.5 : 1);
+  const single = household.isSenior ? thresholds.singleSenior : thresholds.single;
+  
+  // Shade-in rate that reaches the full levy at the upper threshold (10% of the excess)
+  const shadeInRate = (rate * single.upper) / (single.upper - single.lower);
+  
+  if (taxableIncome <= single.lower) {
+    return 0; // No Medicare levy for low income earners
+  }
+  
+  // Reduced Medicare levy for income between lower and upper thresholds
+  let levy = Math.min(taxableIncome * rate, (taxableIncome - single.lower) * shadeInRate);
+  
+  // Family reduction - the shaded-in family levy is shared in proportion to each spouse's income
+  if (isFamily(household)) {
+    const family = household.isSenior ? thresholds.familySenior : thresholds.family;
+    const familyLower = family.lower + thresholds.perChild * household.dependentChildren;
+    const familyUpper = familyLower * (family.upper / family.lower);
+    const familyIncome = taxableIncome + (household.hasSpouse ? household.spouseIncome : 0);
+    
+    if (familyIncome <= familyLower) {
+      return 0;
+    }
+    
+    if (familyIncome < familyUpper) {
+      const familyLevy = (familyIncome - familyLower) * shadeInRate;
+      levy = Math.min(levy, familyLevy * (taxableIncome / familyIncome));
+    }
+  }
+  
+  return levy;
+};
+
+export const calculateMedicareLevySurcharge = (
+  incomeForMls: number,
+  rules: TaxRulesPack,
+  hasInsurance: boolean,
+  household: Household,
+  exemption: MedicareExemption
+): number => {
+  if (hasInsurance) {
+    return 0; // No surcharge if you have appropriate private health insurance
+  }
+  
+  if (exemption === 'full' && household.dependentChildren === 0) {
+    return 0; // Fully exempt with no dependants to cover
+  }
+  
+  const thresholds = rules.medicareLevySurcharge;
+  
+  if (!isFamily(household)) {
+    const tier = thresholds.single.find(t => incomeForMls <= t.max);
+    return tier ? incomeForMls * tier.rate : 0;
+  }
+  
+  // Family tiers apply to combined income, raised for each child after the first
+  const increase = thresholds.perChild * Math.max(0, household.dependentChildren - 1);
+  const familyIncome = incomeForMls + (household.hasSpouse ? household.spouseIncome : 0);
+  const tier = thresholds.family.find(t => familyIncome <= t.max + increase);
+  
+  return tier ? incomeForMls * tier.rate : 0;
+};
+
+// Weekly earnings: ignore cents and add 99 cents, then round the result to the nearest dollar
+const calculateWeeklyWithholding = (weeklyEarnings: number, rules: TaxRulesPack, scale: CoefficientScale): number => {
+  const x = Math.floor(weeklyEarnings) + 0.99;
+  const coefficients = rules.withholding.coefficients[scale];
+  const coefficient = coefficients.find(c => x < c.max) || coefficients[coefficients.length - 1];
+
+  return Math.max(0, Math.round(coefficient.a * x - coefficient.b));
+};
+
+// Converts earnings to a weekly equivalent, applies a weekly tax table formula and converts back
+// using the Schedule 1 rounding rules for each pay frequency
+const applyWeeklyFormula = (grossPay: number, frequency: string, weeklyFormula: (weeklyEarnings: number) => number): number => {
+  switch (frequency) {
+    case 'weekly':
+      return weeklyFormula(grossPay);
+    case 'fortnightly':
+      return weeklyFormula(grossPay / 2) * 2;
+    case 'monthly': {
+      // Monthly earnings ending in 33 cents have 1 cent added before conversion
+      const cents = Math.round((grossPay - Math.floor(grossPay)) * 100);
+      const monthlyEarnings = cents === 33 ? grossPay + 0.01 : grossPay;
+      return Math.round((weeklyFormula((monthlyEarnings * 3) / 13) * 13) / 3);
+    }
+    case 'quarterly':
+      return weeklyFormula(grossPay / 13) * 13;
+    default:
+      return weeklyFormula(grossPay / 2) * 2;
+  }
+};
+
+export const getWithholdingScale = (
+  residency: ResidencyStatus,
+  tfnProvided: boolean,
+  claimsTaxFreeThreshold: boolean,
+  exemption: MedicareExemption
+): WithholdingScale => {
+  if (!tfnProvided) {
+    return 'noTfn';
+  }
+
+  switch (residency) {
+    case 'foreignResident':
+      return 'foreignResident';
+    case 'workingHolidayMaker':
+      return 'workingHolidayMaker';
+    default:
+      if (!claimsTaxFreeThreshold) {
+        return 'noTaxFreeThreshold';
+      }
+      // Medicare levy exemption scales assume the tax-free threshold is claimed
+      return exemption === 'full' ? 'fullMedicareExemption' : exemption === 'half' ? 'halfMedicareExemption' : 'taxFreeThreshold';
+  }
+};
+
+// Schedule 15 - working holiday makers are withheld on cumulative earnings for the income year,
+// assuming the employer is registered as a WHM employer
+export const calculateWorkingHolidayMakerWithholding = (grossPay: number, ytdGrossBefore: number, rules: TaxRulesPack): number => {
+  const brackets = rules.taxBrackets.workingHolidayMaker;
+  return Math.floor(calculateTax(ytdGrossBefore + grossPay, brackets) - calculateTax(ytdGrossBefore, brackets));
+};
+
+export const calculateWithholding = (
+  grossPay: number,
+  frequency: string,
+  rules: TaxRulesPack,
+  scale: Exclude<WithholdingScale, 'workingHolidayMaker'>,
+  residency: ResidencyStatus
+): number => {
+  if (scale === 'noTfn') {
+    // Earnings and the result both ignore cents
+    const rates = rules.withholding.noTfn;
+    const rate = residency === 'resident' ? rates.resident : rates.foreignResident;
+    return Math.floor(Math.floor(grossPay) * rate);
+  }
+
+  return applyWeeklyFormula(grossPay, frequency, weeklyEarnings => calculateWeeklyWithholding(weeklyEarnings, rules, scale));
+};
+
+// Schedule 5 marginal method - a payment is spread over the pay periods it covers, and the extra
+// withholding on each period's share on top of normal earnings is multiplied back up. Withholding
+// is never more than the top rate on the whole payment.
+export const calculateOneOffWithholding = (
+  amount: number,
+  periods: number,
+  normalEarnings: number,
+  withhold: (earnings: number) => number,
+  maxRate: number
+): number => {
+  const share = amount / periods;
+  const withheld = (withhold(normalEarnings + share) - withhold(normalEarnings)) * periods;
+  return Math.min(Math.max(0, withheld), Math.floor(amount * maxRate));
+};
+
+// Schedule 5 method for back pay that accrued in an earlier financial year - the payment is added
+// to a full year of normal earnings and the extra annual tax is withheld, rounded to the dollar.
+// Withholding is never more than the top rate on the whole payment.
+export const calculatePriorYearBackPayWithholding = (
+  amount: number,
+  annualEarnings: number,
+  taxOnAnnualEarnings: (earnings: number) => number,
+  maxRate: number
+): number => {
+  const withheld = Math.round(taxOnAnnualEarnings(annualEarnings + amount) - taxOnAnnualEarnings(annualEarnings));
+  return Math.min(Math.max(0, withheld), Math.floor(amount * maxRate));
+};
+
+export const calculateStudyLoanRepayment = (repaymentIncome: number, rules: TaxRulesPack): number => {
+  const { system, thresholds } = rules.studyLoan;
+  const threshold = [...thresholds].reverse().find(t => repaymentIncome >= t.min);
+
+  if (!threshold) {
+    return 0;
+  }
+
+  return system === 'marginal'
+    ? threshold.base + (repaymentIncome - threshold.min) * threshold.rate
+    : repaymentIncome * threshold.rate;
+};
+
+// Schedule 8 - weekly study loan component, with $350 added to weekly earnings when the
+// tax-free threshold isn't claimed. No component is withheld when a TFN isn't provided.
+const calculateWeeklyStudyLoanComponent = (weeklyEarnings: number, rules: TaxRulesPack, scale: WithholdingScale): number => {
+  if (scale === 'noTfn') {
+    return 0;
+  }
+
+  const claimsThreshold = scale === 'taxFreeThreshold' || scale === 'fullMedicareExemption' || scale === 'halfMedicareExemption';
+  const x = Math.floor(weeklyEarnings) + 0.99 + (claimsThreshold ? 0 : 350);
+  const { system, thresholds } = rules.studyLoan;
+  const threshold = [...thresholds].reverse().find(t => x >= t.min / 52);
+
+  if (!threshold) {
+    return 0;
+  }
+
+  return Math.round(system === 'marginal'
+    ? threshold.base / 52 + (x - threshold.min / 52) * threshold.rate
+    : x * threshold.rate);
+};
+
+export const calculateStudyLoanWithholding = (grossPay: number, frequency: string, rules: TaxRulesPack, scale: WithholdingScale): number => {
+  return applyWeeklyFormula(grossPay, frequency, weeklyEarnings => calculateWeeklyStudyLoanComponent(weeklyEarnings, rules, scale));
+};
@@ -0,0 +1,9 @@
+// Typographic quotes and dashes become their ASCII equivalents, and anything else outside
+// printable ASCII becomes the replacement
+export const toPrintableAscii = (value: string, replacement: string): string => {
+  return value
+    .replace(/[‘’]/g, '\'')
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E]/g, replacement);
+};
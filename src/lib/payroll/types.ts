@@ -0,0 +1,729 @@
+export interface InputState {
+  calculatorMode: string;
+  targetPay: string;
+  targetMeasure: string;
+  payFrequency: string;
+  payDate: string;
+  periodEndDate: string;
+  employmentType: string;
+  annualSalary: string;
+  casualHourlyRate: string;
+  casualLoading: string;
+  casualHours: string;
+  employmentStartDate: string;
+  employmentEndDate: string;
+  terminationReason: string;
+  dateOfBirth: string;
+  redundancyPayment: string;
+  paymentInLieuOfNotice: string;
+  otherTerminationPayment: string;
+  payProRataLongServiceLeave: boolean;
+  salaryChanges: SalaryChange[];
+  proRataBasis: string;
+  taxYear: string;
+  fullTimeHours: string;
+  fte: string;
+  annualLeaveDays: string;
+  personalLeaveDays: string;
+  longServiceLeaveState: string;
+  leaveLoading: string;
+  openingAnnualLeave: string;
+  openingPersonalLeave: string;
+  openingLongServiceLeave: string;
+  annualLeaveTaken: string;
+  personalLeaveTaken: string;
+  longServiceLeaveTaken: string;
+  hasPrivateHealthInsurance: boolean;
+  isSeniorOrPensioner: boolean;
+  hasSpouse: boolean;
+  spouseIncome: string;
+  dependentChildren: string;
+  medicareExemption: string;
+  tfnProvided: boolean;
+  residencyStatus: string;
+  claimsTaxFreeThreshold: boolean;
+  withholdExtraPay: boolean;
+  hasStudyLoan: boolean;
+  employerName: string;
+  employerAbn: string;
+  employeeName: string;
+  employeeId: string;
+  employeeTfn: string;
+  superFundName: string;
+  bankBsb: string;
+  bankAccountNumber: string;
+  bankAccountName: string;
+  employerBsb: string;
+  employerAccountNumber: string;
+  employerAccountName: string;
+  employerBankCode: string;
+  employerApcaId: string;
+  payrollTaxState: string;
+  employerOtherWages: string;
+  workersCompRate: string;
+  earningsLines: EarningsLine[];
+  oneOffPayments: OneOffPayment[];
+  preTaxDeductions: PreTaxDeduction[];
+  postTaxDeductions: PostTaxDeduction[];
+}
+
+export type EmploymentType = 'fullTime' | 'partTime' | 'casual';
+
+export type TimesheetEarningsType = 'ordinary' | 'overtime' | 'saturday' | 'sunday' | 'publicHoliday' | 'allowanceTaxable' | 'allowanceNonTaxable';
+
+export type OneOffPaymentType = 'bonus' | 'commission' | 'backPay' | 'priorYearBackPay' | 'leaveCashOut';
+
+// Timesheet types plus the lines generated for salary and paid leave
+export type EarningsType =
+  | TimesheetEarningsType
+  | OneOffPaymentType
+  | 'salary'
+  | 'annualLeave'
+  | 'personalLeave'
+  | 'longServiceLeave'
+  | 'leaveLoading';
+
+export type AustralianState = 'NSW' | 'VIC' | 'QLD' | 'WA' | 'SA' | 'TAS' | 'ACT' | 'NT';
+
+export type LeaveType = 'annual' | 'personal' | 'longService';
+
+// Long service leave accrues at `weeksPerYear` of leave per year of service, taken once `entitlementYears` is reached
+export interface LongServiceLeaveRule {
+  weeksPerYear: number;
+  entitlementYears: number;
+}
+
+// Timesheet line - hours at a multiple of the base hourly rate, or a fixed allowance amount
+export interface EarningsLine {
+  id: string;
+  type: string;
+  description: string;
+  hours: string;
+  multiplier: string;
+  amount: string;
+  ote: boolean;
+}
+
+// Irregular payment made this period, spread over the pay periods it relates to for withholding
+export interface OneOffPayment {
+  id: string;
+  type: string;
+  description: string;
+  amount: string;
+  periods: string;
+  ote: boolean;
+}
+
+// Salary or FTE change from a date - blank fields keep the previous value
+export interface SalaryChange {
+  id: string;
+  effectiveDate: string;
+  annualSalary: string;
+  fte: string;
+}
+
+// Salary and FTE in effect from a date, or from the start of employment
+export interface SalaryRate {
+  id: string;
+  from: Date | null;
+  annualSalary: number;
+  fte: number;
+}
+
+export type PreTaxDeductionType = 'superSacrifice' | 'novatedLease' | 'other';
+
+// Salary packaging arrangement, taken out of gross pay before tax
+export interface PreTaxDeduction {
+  id: string;
+  type: string;
+  description: string;
+  amountType: string;
+  amount: string;
+}
+
+export type PostTaxDeductionType = 'unionFees' | 'novatedLease' | 'childSupport' | 'workplaceGiving' | 'afterTaxSuper' | 'other';
+
+// Deduction taken from net pay before it's deposited
+export interface PostTaxDeduction {
+  id: string;
+  type: string;
+  description: string;
+  amountType: string;
+  amount: string;
+  taxDeductible: boolean;
+}
+
+export interface TaxBracket {
+  min: number;
+  max: number;
+  rate: number;
+  offset: number;
+}
+
+// Residency for tax purposes, as declared on the TFN declaration
+export type ResidencyStatus = 'resident' | 'foreignResident' | 'workingHolidayMaker';
+
+// Schedule 1 scales that use the a/b coefficient formula
+export type CoefficientScale =
+  | 'noTaxFreeThreshold'
+  | 'taxFreeThreshold'
+  | 'foreignResident'
+  | 'fullMedicareExemption'
+  | 'halfMedicareExemption';
+
+export type MedicareExemption = 'none' | 'full' | 'half';
+
+// Family details used for the Medicare levy, MLS and SAPTO thresholds
+export interface Household {
+  hasSpouse: boolean;
+  spouseIncome: number;
+  dependentChildren: number;
+  isSenior: boolean;
+}
+
+export interface MedicareLevyThreshold {
+  lower: number;
+  upper: number;
+}
+
+export interface MlsTier {
+  min: number;
+  max: number;
+  rate: number;
+}
+
+// Tax table scales, plus the working holiday maker schedule
+export type WithholdingScale = CoefficientScale | 'noTfn' | 'workingHolidayMaker';
+
+// Study and training support loans (HELP, VSL, SFSS and others).
+// Percentage system: `rate` applies to the whole repayment income once it reaches `min`.
+// Marginal system (from 2025-26): `base` plus `rate` on repayment income over `min`.
+export interface StudyLoanRepaymentRates {
+  system: 'percentage' | 'marginal';
+  thresholds: Array<{ min: number; rate: number; base: number }>;
+}
+
+// Coefficients apply while weekly earnings are less than `max`: y = a * x - b
+export type ProRataBasis = 'workingDays' | 'calendarDays';
+
+// Gross to net, solving for the pay rate that gives a target net pay, or a final pay on termination
+export type CalculatorMode = 'forward' | 'reverse' | 'final';
+
+export type TerminationReason = 'resignation' | 'genuineRedundancy' | 'invalidity';
+
+// Year-specific limits for termination payments
+export interface TerminationRules {
+  etpCap: number;
+  wholeOfIncomeCap: number;
+  redundancyBase: number;
+  redundancyPerYear: number;
+}
+
+// Long service leave is taxed by when it accrued
+export type LongServiceLeavePeriod = 'pre1978' | 'from1978To1993' | 'post1993';
+
+// Termination payment with its tax-free part and the amount withheld
+export interface TerminationPaymentLine {
+  id: string;
+  label: string;
+  amount: number;
+  taxFree: number;
+  withholding: number;
+}
+
+export interface FinalPayResult {
+  reason: TerminationReason;
+  completedYears: number;
+  age: number | null;
+  preservationAge: number | null;
+  redundancyTaxFreeLimit: number;
+  etpCap: number;
+  lines: TerminationPaymentLine[];
+  gross: number;
+  taxFree: number;
+  withholding: number;
+  net: number;
+}
+
+export type TargetMeasure = 'net' | 'takeHome';
+
+export interface NetToGrossSolution {
+  measure: TargetMeasure;
+  field: 'annualSalary' | 'casualHourlyRate';
+  target: number;
+  rate: number;
+  achieved: number;
+  difference: number;
+}
+
+// Field-level validation messages, keyed by the input they belong to
+export type InputErrors = Partial<Record<keyof InputState, string>>;
+
+export interface PayPeriod {
+  payDate: Date;
+  start: Date;
+  end: Date;
+  daysInPeriod: number;
+  daysPaid: number;
+  proRata: number;
+}
+
+export interface PayFrequencyRule {
+  periodsPerYear: number;
+  weeksPerPeriod: number;
+  interval: { days: number } | { months: number };
+  extraPayWithholding?: Array<{ min: number; amount: number }>;
+}
+
+export interface WithholdingCoefficient {
+  max: number;
+  a: number;
+  b: number;
+}
+
+export interface DeductionLine {
+  id: string;
+  type: string;
+  label: string;
+  amount: number;
+  ytd: number;
+}
+
+export interface PostTaxDeductionLine extends DeductionLine {
+  taxDeductible: boolean;
+}
+
+export interface EarningsLineResult {
+  id: string;
+  type: string;
+  label: string;
+  hours: number;
+  rate: number;
+  amount: number;
+  taxable: boolean;
+  ote: boolean;
+  ytd: number;
+}
+
+// Figures for a single pay run, summed across the pay schedule for YTD and annual totals
+export interface PayRun {
+  period: PayPeriod;
+  earningsLines: EarningsLineResult[];
+  leaveLoading: number;
+  grossPay: number;
+  nonTaxableAllowances: number;
+  ordinaryTimeEarnings: number;
+  ordinaryHours: number;
+  preTaxDeductions: DeductionLine[];
+  totalPreTaxDeductions: number;
+  superSalarySacrifice: number;
+  taxableIncome: number;
+  withholding: number;
+  extraPayWithholding: number;
+  oneOffWithholding: number;
+  studyLoanWithholding: number;
+  netPay: number;
+  postTaxDeductions: PostTaxDeductionLine[];
+  totalPostTaxDeductions: number;
+  takeHomePay: number;
+  superGuarantee: number;
+  superannuation: number;
+}
+
+// Employer super contributions owed for a quarter, or for a single payday under payday super
+export interface SuperContribution {
+  id: string;
+  label: string;
+  superGuarantee: number;
+  salarySacrifice: number;
+  amount: number;
+  dueDate: Date;
+  projected: boolean;
+}
+
+export type TaxOffsetId = 'lowIncome' | 'seniorPensioner';
+
+// Non-refundable tax offset. Starts at `max` and reduces by `rate` per dollar of income
+// within each phase-out range. SAPTO is tested on rebate income (taxable income plus
+// reportable super), LITO on taxable income.
+export interface TaxOffsetRule {
+  id: TaxOffsetId;
+  label: string;
+  max: number;
+  incomeTest: 'taxable' | 'rebate';
+  phaseOuts: Array<{ from: number; to: number; rate: number }>;
+  // Amounts for each member of a couple, where they differ from singles
+  couple?: {
+    max: number;
+    phaseOuts: Array<{ from: number; to: number; rate: number }>;
+  };
+}
+
+export interface TaxOffsetResult {
+  id: TaxOffsetId;
+  label: string;
+  amount: number;
+}
+
+// Annual payroll tax on an employer's total taxable wages - `base` plus `rate` on the wages over
+// `min` of the highest bracket the wages exceed. Extra brackets above the threshold cover
+// deductions that phase out and higher rates for larger employers. `rate` is the general rate.
+export interface PayrollTaxRule {
+  threshold: number;
+  rate: number;
+  brackets: Array<{ min: number; rate: number; base: number }>;
+  source: { title: string; url: string };
+}
+
+// Leave balances in hours
+export interface LeaveBalance {
+  opening: number;
+  accrued: number;
+  taken: number;
+  closing: number;
+}
+
+// Tax, levy and super rules for one financial year. A pack applies to pay dates from
+// `effectiveFrom` to the end of its financial year; provisional packs carry forward amounts
+// that haven't been published yet.
+export interface TaxRulesPack {
+  year: string;
+  effectiveFrom: string;
+  provisional?: boolean;
+  sources: Array<{ title: string; url: string }>;
+  taxBrackets: Record<ResidencyStatus | 'noTfn', TaxBracket[]>;
+  taxOffsets: TaxOffsetRule[];
+  // Family thresholds increase by `perChild` for each dependent child or student
+  medicareLevy: {
+    rate: number;
+    single: MedicareLevyThreshold;
+    singleSenior: MedicareLevyThreshold;
+    family: MedicareLevyThreshold;
+    familySenior: MedicareLevyThreshold;
+    perChild: number;
+  };
+  // Family tiers are tested against combined family income and increase by `perChild` for
+  // each dependent child after the first
+  medicareLevySurcharge: { single: MlsTier[]; family: MlsTier[]; perChild: number };
+  studyLoan: StudyLoanRepaymentRates;
+  withholding: {
+    coefficients: Record<CoefficientScale, WithholdingCoefficient[]>;
+    // Year of the Schedule 1 tables the coefficients belong to, when a pack borrows an earlier year's
+    tablesYear?: string;
+    noTfn: { resident: number; foreignResident: number };
+  };
+  // The maximum contribution base is the most ordinary time earnings SG is owed on in each
+  // quarter, or across the year under payday super
+  super: {
+    guaranteeRate: number;
+    maximumContributionBase: number;
+    contributionBasePeriod: 'quarter' | 'year';
+    concessionalCap: number;
+  };
+  termination: TerminationRules;
+  // State payroll tax. Mental health levies and surcharges on the largest employers aren't included.
+  payrollTax: Record<AustralianState, PayrollTaxRule>;
+}
+
+export interface CalculationResults {
+  rules: TaxRulesPack;
+  employmentType: EmploymentType;
+  casualLoading: number;
+  earningsLines: EarningsLineResult[];
+  usesTimesheet: boolean;
+  leaveLoading: number;
+  ordinaryTimeEarnings: number;
+  nonTaxableAllowances: number;
+  grossPay: number;
+  preTaxDeductions: DeductionLine[];
+  totalPreTaxDeductions: number;
+  taxableIncome: number;
+  withholding: number;
+  oneOffWithholding: number;
+  withholdingScale: WithholdingScale;
+  residencyStatus: ResidencyStatus;
+  medicareExemption: MedicareExemption;
+  isFamily: boolean;
+  studyLoanWithholding: number;
+  netIncome: number;
+  postTaxDeductions: PostTaxDeductionLine[];
+  totalPostTaxDeductions: number;
+  takeHomePay: number;
+  superGuarantee: number;
+  superSalarySacrifice: number;
+  superannuation: number;
+  maximumContributionBase: number;
+  superGuaranteeCapped: boolean;
+  superContributions: SuperContribution[];
+  paydaySuper: boolean;
+  concessionalContributions: {
+    cap: number;
+    annual: number;
+    ytd: number;
+    remaining: number;
+  };
+  leave: Record<LeaveType, LeaveBalance>;
+  longServiceLeaveRule: LongServiceLeaveRule;
+  yearsOfService: number;
+  hoursWorked: number;
+  hourlyRate: number;
+  annualLiability: {
+    grossTax: number;
+    offsets: TaxOffsetResult[];
+    totalOffsets: number;
+    tax: number;
+    medicareLevy: number;
+    medicareLevySurcharge: number;
+    totalMedicareCharges: number;
+    studyLoanRepayment: number;
+    deductions: number;
+    taxableIncome: number;
+    total: number;
+    withholding: number;
+    difference: number;
+  };
+  ytd: {
+    gross: number;
+    ordinaryTimeEarnings: number;
+    preTaxDeductions: number;
+    taxableIncome: number;
+    withholding: number;
+    studyLoanWithholding: number;
+    net: number;
+    postTaxDeductions: number;
+    takeHome: number;
+    super: number;
+  };
+  periodsPerYear: number;
+  periodsToDate: number;
+  payPeriods: PayPeriod[];
+  payRuns: PayRun[];
+  currentPeriod: PayPeriod;
+  proRataBasis: ProRataBasis;
+  nextPayDate: Date | null;
+  salaryChange: SalaryRate | null;
+  netToGross: NetToGrossSolution | null;
+  finalPay: FinalPayResult | null;
+  hasExtraPay: boolean;
+  extraPayWithholding: number;
+  effectiveAnnualSalary: number;
+  fte: number;
+}
+
+// Calculated payslip, or the field errors that stopped it
+export type PayslipOutcome =
+  | { ok: true; results: CalculationResults }
+  | { ok: false; errors: InputErrors };
+
+// Employee from a bulk pay run file, with their payslip or the problems found on their line
+export interface BulkPayRunRow {
+  line: number;
+  name: string;
+  employeeId: string;
+  input: InputState | null;
+  results: CalculationResults | null;
+  errors: string[];
+}
+
+// Totals across the payslips that calculated. PAYG withheld includes one-off payment and study
+// loan withholding.
+export interface BulkPayRunTotals {
+  grossPay: number;
+  withholding: number;
+  superannuation: number;
+  netIncome: number;
+  takeHomePay: number;
+}
+
+export interface BulkPayRun {
+  rows: BulkPayRunRow[];
+  totals: BulkPayRunTotals;
+  ignoredColumns: string[];
+  errors: string[];
+}
+
+// Line on a payslip document. Hours and rate are set for time-based earnings.
+export interface PayslipDocumentLine {
+  label: string;
+  amount: number;
+  hours?: number;
+  rate?: number;
+}
+
+// Payslip with the details the Fair Work Regulations require, ready to print or render as a PDF
+export interface PayslipDocument {
+  employerName: string;
+  employerAbn: string;
+  employeeName: string;
+  employmentType: string;
+  periodStart: Date;
+  periodEnd: Date;
+  payDate: Date;
+  annualSalary: number | null;
+  hourlyRate: number;
+  hoursWorked: number;
+  earnings: PayslipDocumentLine[];
+  grossPay: number;
+  deductions: PayslipDocumentLine[];
+  totalDeductions: number;
+  netPay: number;
+  superFundName: string;
+  superContributions: PayslipDocumentLine[];
+  ytd: PayslipDocumentLine[];
+  rulesYear: string;
+}
+
+// Single Touch Payroll Phase 2 payee data, as reported in a pay event. Remuneration amounts are
+// year to date, as the ATO receives them. Codes follow the ATO's STP Phase 2 reporting guidelines.
+export interface StpAmount<Code extends string> {
+  typeCode: Code;
+  amount: number;
+}
+
+export interface StpLumpSum extends StpAmount<'A' | 'B' | 'D' | 'E'> {
+  // Lump sum A - R for redundancy, invalidity and early retirement, T for other terminations
+  paymentTypeCode?: 'R' | 'T';
+  // Lump sum E - the financial year the back pay relates to
+  financialYear?: string;
+}
+
+export interface StpEtp {
+  // R for excluded (genuine redundancy, invalidity) and O for non-excluded life benefit ETPs
+  typeCode: 'R' | 'O';
+  paymentDate: string;
+  taxableComponent: number;
+  taxWithheld: number;
+}
+
+export interface StpPayee {
+  payrollId: string;
+  tfn: string;
+  name: { familyName: string; firstName?: string };
+  dateOfBirth?: string;
+  employment: {
+    basisCode: 'F' | 'P' | 'C';
+    taxTreatmentCode: string;
+    incomeType: 'SAW' | 'WHM';
+    startDate: string;
+    cessationDate?: string;
+    cessationTypeCode?: 'V' | 'I' | 'R';
+  };
+  remuneration: {
+    gross: number;
+    paidLeave: StpAmount<'C' | 'U' | 'O'>[];
+    allowances: StpAmount<'OD'>[];
+    overtime: number;
+    bonusesAndCommissions: number;
+    salarySacrifice: StpAmount<'S' | 'O'>[];
+    lumpSums: StpLumpSum[];
+    paygWithholding: number;
+  };
+  etps: StpEtp[];
+  deductions: StpAmount<'F' | 'W' | 'G'>[];
+  super: {
+    superGuaranteeLiability: number;
+    ordinaryTimeEarnings: number;
+    reportableEmployerSuper: number;
+  };
+}
+
+export interface StpPayload {
+  payer: {
+    abn: string;
+    name: string;
+    bmsId: string;
+  };
+  payEvent: {
+    paymentDate: string;
+    runDateTime: string;
+    financialYear: string;
+    payeeCount: number;
+  };
+  payees: StpPayee[];
+}
+
+// The parts of JSON Schema (draft 2020-12) that validateJsonSchema checks
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: Array<string | number>;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+}
+
+export interface BankAccount {
+  bsb: string;
+  accountNumber: string;
+  accountName: string;
+}
+
+// Credit to an employee's account in a direct entry file
+export interface AbaPayment {
+  account: BankAccount;
+  amount: number;
+  reference: string;
+}
+
+// Which amount is paid into each employee's account - take-home pay after post-tax deductions, or
+// net pay before them
+export type AbaPaymentAmount = 'takeHome' | 'net';
+
+export interface AbaFileOptions {
+  amount: AbaPaymentAmount;
+  balanced: boolean;
+  description: string;
+}
+
+// Direct entry (ABA) file paying employees from the employer's account. `bankCode` is the bank's
+// three-letter abbreviation and `apcaId` the six-digit user ID it issued. A balanced file ends with
+// a debit from the employer's account for the total.
+export interface AbaFile {
+  debitAccount: BankAccount;
+  bankCode: string;
+  apcaId: string;
+  userName: string;
+  description: string;
+  processingDate: Date;
+  payments: AbaPayment[];
+  balanced: boolean;
+}
+
+// An employee's cost to the employer. On-costs are super guarantee, payroll tax, workers
+// compensation and provisions for leave loading and long service leave.
+export interface EmployerCostAmounts {
+  grossPay: number;
+  superGuarantee: number;
+  payrollTax: number;
+  workersCompensation: number;
+  leaveProvisions: number;
+  onCosts: number;
+  total: number;
+}
+
+// Employer costs for the pay period and annualised over the pay periods in a year. Payroll tax is
+// the increase in the employer's annual tax from adding this employee's wages and super to
+// `otherWages`. Annual leave is paid within the salary, so its accrual is shown but not added.
+export interface EmployerCost {
+  state: AustralianState;
+  payrollTaxRule: PayrollTaxRule;
+  otherWages: number;
+  payrollTaxWages: number;
+  workersCompRate: number;
+  annualLeaveAccrued: number;
+  leaveLoadingProvision: number;
+  longServiceLeaveProvision: number;
+  // Pays in a standard year at the pay frequency, used to annualise the period's figures
+  periodsPerYear: number;
+  period: EmployerCostAmounts;
+  annual: EmployerCostAmounts;
+}